@@ -1,18 +1,37 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import ChatView from './components/ChatView';
-import { NewChatIcon, PkpIcon, AiIcon, CloseIcon, MenuIcon, MoreVerticalIcon, EditIcon, TrashIcon, CheckIcon } from './components/icons';
-import type { ChatSession, Message, Source } from './types';
+import SessionList, { SessionExportFormat } from './components/SessionList';
+import SettingsModal, { SettingsSection } from './components/SettingsModal';
+import { NewChatIcon, PkpIcon, AiIcon, CloseIcon, MenuIcon, DownloadIcon, UploadIcon, SearchIcon, SettingsIcon, ChevronDownIcon } from './components/icons';
+import type { AppSettings, ChatFolder, ChatSession, ImageStylePreset, Message, Persona, Source } from './types';
 import { generateTitle } from './services/geminiService';
+import { getDefaultProviderId, listProviders } from './services/providers';
+import { loadSessions, saveSession, deleteSession, saveActiveSessionId, loadFolders, saveFolders, loadSettings, saveSettings, DEFAULT_SETTINGS, StorageQuotaError } from './services/storage';
+import { exportSessionsToJson, exportSessionsToMarkdown, exportSessionsToHtml, exportSessionsToPdf, importSessions, SessionImportError } from './services/sessionTransfer';
+import { buildSearchIndex, searchSessions } from './services/searchIndex';
+import { downloadFile, toFileSlug } from './utils/download';
 
 const App: React.FC = () => {
   const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [folders, setFolders] = useState<ChatFolder[]>([]);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  // Open settings section, or null while the dialog is closed.
+  const [settingsSection, setSettingsSection] = useState<SettingsSection | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
-  const [renamingSessionId, setRenamingSessionId] = useState<string | null>(null);
-  const [openMenuSessionId, setOpenMenuSessionId] = useState<string | null>(null);
-  const [tempTitle, setTempTitle] = useState('');
-  const menuRef = useRef<HTMLDivElement>(null);
+  const [storageWarning, setStorageWarning] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+  const [isPersonaMenuOpen, setIsPersonaMenuOpen] = useState(false);
+  const personaMenuRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const hasLoadedRef = useRef(false);
+  // Last version of each session written to storage, used to only persist what changed.
+  const savedSessionsRef = useRef(new Map<string, ChatSession>());
+  const quotaPromptOpenRef = useRef(false);
+  // Saves run one after another, so an older snapshot can never be written after a newer one.
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
 
   useEffect(() => {
     const mediaQuery = window.matchMedia('(max-width: 768px)');
@@ -22,87 +41,150 @@ const App: React.FC = () => {
     return () => mediaQuery.removeEventListener('change', handleResize);
   }, []);
 
-  useEffect(() => {
-    const handleClickOutside = (event: MouseEvent) => {
-        if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
-            setOpenMenuSessionId(null);
-        }
-    };
-    document.addEventListener("mousedown", handleClickOutside);
-    return () => document.removeEventListener("mousedown", handleClickOutside);
-  }, []);
-
-  const createNewSession = useCallback(() => {
+  // The chat gets its own copy of the persona, so editing it later doesn't change the library.
+  const createNewSession = useCallback((persona?: Persona) => {
+    const now = new Date().toISOString();
+    const personaProvider = persona?.providerId && listProviders().find(p => p.id === persona.providerId && p.isConfigured());
     const newSession: ChatSession = {
       id: Date.now().toString(),
       title: 'New Chat',
       messages: [],
-      createdAt: new Date().toISOString(),
+      createdAt: now,
+      updatedAt: now,
+      providerId: personaProvider ? personaProvider.id : getDefaultProviderId(),
+      ...(persona ? { persona: { ...persona } } : {}),
     };
     setSessions((prev) => [newSession, ...prev]);
     setActiveSessionId(newSession.id);
+    setIsPersonaMenuOpen(false);
     if (window.innerWidth < 768) {
       setIsSidebarOpen(false);
     }
   }, []);
 
   useEffect(() => {
-    let loadedSessions: ChatSession[] = [];
-    try {
-      const savedSessions = localStorage.getItem('chatSessions');
-      if (savedSessions) {
-        loadedSessions = JSON.parse(savedSessions);
-      }
-    } catch (e) { 
-        console.error("Failed to parse sessions from local storage", e);
-    }
-    
-    if (loadedSessions.length > 0) {
-      setSessions(loadedSessions);
-      const savedActiveId = localStorage.getItem('activeSessionId');
-      if (savedActiveId && loadedSessions.some(s => s.id === savedActiveId)) {
-        setActiveSessionId(savedActiveId);
-      } else {
-        setActiveSessionId(loadedSessions[0].id);
+    if (!isPersonaMenuOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (personaMenuRef.current && !personaMenuRef.current.contains(event.target as Node)) {
+        setIsPersonaMenuOpen(false);
       }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isPersonaMenuOpen]);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadSessions(), loadFolders(), loadSettings()])
+      .then(([{ sessions: loadedSessions, activeSessionId: savedActiveId }, loadedFolders, loadedSettings]) => {
+        if (cancelled) return;
+        loadedSessions.forEach(s => savedSessionsRef.current.set(s.id, s));
+        hasLoadedRef.current = true;
+        setFolders(loadedFolders);
+        setSettings(loadedSettings);
+
+        if (loadedSessions.length > 0) {
+          setSessions(loadedSessions);
+          if (savedActiveId && loadedSessions.some(s => s.id === savedActiveId)) {
+            setActiveSessionId(savedActiveId);
+          } else {
+            setActiveSessionId((loadedSessions.find(s => !s.archived) ?? loadedSessions[0]).id);
+          }
+        } else {
+          createNewSession();
+        }
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        // Saving stays disabled so a broken database is never overwritten.
+        console.error("Failed to load sessions from storage", e);
+        setStorageWarning("Your chats could not be loaded from browser storage. New messages will not be saved.");
+        createNewSession();
+      });
+    return () => { cancelled = true; };
+  }, [createNewSession]);
+
+  // Asks before removing anything when the browser refuses to store more data.
+  const handleStorageFull = useCallback((currentSessions: ChatSession[], currentActiveId: string | null) => {
+    if (quotaPromptOpenRef.current) return;
+    const oldest = [...currentSessions]
+      .filter(s => s.id !== currentActiveId)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())[0];
+
+    quotaPromptOpenRef.current = true;
+    const confirmed = oldest && window.confirm(
+      `Browser storage is full, so your latest changes could not be saved.\n\nDelete the oldest chat, "${oldest.title}", to free up space?`
+    );
+    if (confirmed) {
+      quotaPromptOpenRef.current = false;
+      setSessions(prev => prev.filter(s => s.id !== oldest.id));
     } else {
-      createNewSession();
+      // Keep the prompt closed until a save succeeds again, so streaming does not re-ask on every chunk.
+      setStorageWarning("Browser storage is full. Recent changes are only kept until this tab is closed.");
     }
-  }, [createNewSession]);
+  }, []);
 
   useEffect(() => {
-    try {
-      if (sessions.length > 0) {
-        localStorage.setItem('chatSessions', JSON.stringify(sessions));
-      } else {
-        localStorage.removeItem('chatSessions');
-      }
-      if (activeSessionId) {
-        localStorage.setItem('activeSessionId', activeSessionId);
-      }
-    } catch (error) {
-      if (error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22)) {
-        console.warn("LocalStorage quota exceeded. Removing the oldest session to make space.");
-        
-        const sortedSessions = [...sessions].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
-        
-        if (sortedSessions.length > 0) {
-          const oldestSessionId = sortedSessions[0].id;
-          const prunedSessions = sessions.filter(s => s.id !== oldestSessionId);
-          
-          if (activeSessionId === oldestSessionId) {
-            const newestFirst = prunedSessions.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-            setActiveSessionId(newestFirst.length > 0 ? newestFirst[0].id : null);
+    if (!hasLoadedRef.current) return;
+    const persist = async () => {
+      const saved = savedSessionsRef.current;
+      try {
+        for (const id of [...saved.keys()]) {
+          if (!sessions.some(s => s.id === id)) {
+            await deleteSession(id);
+            saved.delete(id);
           }
-          
-          setSessions(prunedSessions);
         }
-      } else {
-        console.error("Failed to save sessions to local storage", error);
+        for (const session of sessions) {
+          if (saved.get(session.id) === session) continue;
+          await saveSession(session);
+          saved.set(session.id, session);
+        }
+        await saveActiveSessionId(activeSessionId);
+        quotaPromptOpenRef.current = false;
+        setStorageWarning(null);
+      } catch (error) {
+        if (error instanceof StorageQuotaError) {
+          handleStorageFull(sessions, activeSessionId);
+        } else {
+          console.error("Failed to save sessions to storage", error);
+          setStorageWarning("Some changes could not be saved to browser storage.");
+        }
       }
-    }
-  }, [sessions, activeSessionId]);
+    };
+    // Debounced so a streaming reply is not written on every chunk.
+    const timer = setTimeout(() => {
+      saveQueueRef.current = saveQueueRef.current.then(persist);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [sessions, activeSessionId, handleStorageFull]);
   
+  useEffect(() => {
+    if (!hasLoadedRef.current) return;
+    saveFolders(folders).catch((error) => {
+      console.error("Failed to save folders to storage", error);
+      setStorageWarning("Some changes could not be saved to browser storage.");
+    });
+  }, [folders]);
+
+  useEffect(() => {
+    if (!hasLoadedRef.current) return;
+    saveSettings(settings).catch((error) => {
+      console.error("Failed to save settings to storage", error);
+      setStorageWarning("Some changes could not be saved to browser storage.");
+    });
+  }, [settings]);
+
+  const handleUpdateSettings = useCallback((updates: Partial<AppSettings>) => {
+    setSettings(prev => ({ ...prev, ...updates }));
+  }, []);
+
+  const handleCloseSettings = useCallback(() => setSettingsSection(null), []);
+
+  const handleCreateStylePreset = useCallback((preset: ImageStylePreset) => {
+    setSettings(prev => ({ ...prev, imageStylePresets: [...prev.imageStylePresets, preset] }));
+  }, []);
+
   // Effect for auto-generating title for new chats
   useEffect(() => {
     const renameSessionIfNeeded = async () => {
@@ -112,7 +194,7 @@ const App: React.FC = () => {
         if (sessionToUpdate && sessionToUpdate.title === 'New Chat' && sessionToUpdate.messages.length === 2 && sessionToUpdate.messages[0].role === 'user') {
             const firstPrompt = sessionToUpdate.messages[0].content;
             if (firstPrompt) {
-                const newTitle = await generateTitle(firstPrompt);
+                const newTitle = await generateTitle(firstPrompt, { providerId: sessionToUpdate.providerId, modelSettings: sessionToUpdate.modelSettings });
                 setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, title: newTitle } : s));
             }
         }
@@ -120,11 +202,16 @@ const App: React.FC = () => {
     renameSessionIfNeeded();
   }, [sessions, activeSessionId]);
   
-  const updateSession = useCallback((sessionId: string, updates: Partial<ChatSession>) => {
+  // `updates` can be a function of the latest session, for callers that have awaited since they last rendered.
+  const updateSession = useCallback((sessionId: string, updates: Partial<ChatSession> | ((session: ChatSession) => Partial<ChatSession>)) => {
     setSessions((prevSessions) =>
-      prevSessions.map((session) =>
-        session.id === sessionId ? { ...session, ...updates } : session
-      )
+      prevSessions.map((session) => {
+        if (session.id !== sessionId) return session;
+        const changes = typeof updates === 'function' ? updates(session) : updates;
+        // New or edited messages count as activity; renaming, pinning or filing a chat does not.
+        const activity = changes.messages ? { updatedAt: new Date().toISOString() } : {};
+        return { ...session, ...changes, ...activity };
+      })
     );
   }, []);
 
@@ -155,8 +242,8 @@ const App: React.FC = () => {
   const handleCancelGeneration = (sessionId: string) => {
     setSessions(prev => prev.map(s => {
         if (s.id !== sessionId) return s;
-        // Filter out any messages that are currently in-progress
-        return { ...s, messages: s.messages.filter(m => m.status !== 'in-progress') };
+        // Keep whatever was streamed so far, marked as stopped
+        return { ...s, messages: s.messages.map(m => m.status === 'in-progress' ? { ...m, status: 'stopped' } : m) };
     }));
   };
 
@@ -175,19 +262,77 @@ const App: React.FC = () => {
     }
   };
   
-  const handleStartRename = (session: ChatSession) => {
-    setRenamingSessionId(session.id);
-    setTempTitle(session.title);
-    setOpenMenuSessionId(null);
+  const handleSelectSession = (sessionId: string) => {
+    setActiveSessionId(sessionId);
+    if (window.innerWidth < 768) {
+      setIsSidebarOpen(false);
+    }
   };
-  
-  const handleSaveRename = (sessionId: string) => {
-    if (tempTitle.trim()) {
-        setSessions(prev =>
-            prev.map(s => (s.id === sessionId ? { ...s, title: tempTitle.trim() } : s))
-        );
+
+  const handleCreateFolder = (name: string): ChatFolder => {
+    const folder: ChatFolder = { id: Date.now().toString(), name, createdAt: new Date().toISOString() };
+    setFolders(prev => [...prev, folder]);
+    return folder;
+  };
+
+  const handleUpdateFolder = (folderId: string, updates: Partial<ChatFolder>) => {
+    setFolders(prev => prev.map(f => (f.id === folderId ? { ...f, ...updates } : f)));
+  };
+
+  const handleDeleteFolder = (folderId: string) => {
+    setFolders(prev => prev.filter(f => f.id !== folderId));
+    setSessions(prev => prev.map(s => (s.folderId === folderId ? { ...s, folderId: null } : s)));
+  };
+
+  const handleExportSession = (session: ChatSession, format: SessionExportFormat) => {
+    const name = `pkp-ai-${toFileSlug(session.title)}`;
+    if (format === 'json') downloadFile(exportSessionsToJson([session]), `${name}.json`, 'application/json');
+    if (format === 'md') downloadFile(exportSessionsToMarkdown([session]), `${name}.md`, 'text/markdown');
+    if (format === 'html') downloadFile(exportSessionsToHtml([session]), `${name}.html`, 'text/html');
+    if (format === 'pdf') {
+      exportSessionsToPdf([session])
+        .then(pdf => downloadFile(pdf, `${name}.pdf`, 'application/pdf'))
+        .catch(error => {
+          console.error("PDF export failed", error);
+          alert("The PDF could not be created.");
+        });
+    }
+  };
+
+  const handleExportAll = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(exportSessionsToJson(sessions), `pkp-ai-chats-${date}.json`, 'application/json');
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (event.target) event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = importSessions(await file.text(), sessions);
+      if (imported.length === 0) {
+        window.alert("The file does not contain any chats.");
+        return;
+      }
+      setSessions(prev => [...imported, ...prev]);
+      setActiveSessionId(imported[0].id);
+    } catch (error) {
+      const reason = error instanceof SessionImportError ? error.message : 'The file could not be read.';
+      window.alert(`Import failed: ${reason}`);
+    }
+  };
+
+  const isSearching = searchQuery.trim().length > 0;
+  const searchIndex = useMemo(() => (isSearching ? buildSearchIndex(sessions) : null), [sessions, isSearching]);
+  const searchHits = useMemo(() => (searchIndex ? searchSessions(searchIndex, searchQuery) : []), [searchIndex, searchQuery]);
+
+  const handleOpenSearchHit = (sessionId: string, messageId: string) => {
+    setActiveSessionId(sessionId);
+    setFocusMessageId(messageId);
+    if (window.innerWidth < 768) {
+      setIsSidebarOpen(false);
     }
-    setRenamingSessionId(null);
   };
 
   const activeSession = sessions.find((s) => s.id === activeSessionId);
@@ -208,70 +353,109 @@ const App: React.FC = () => {
                 <CloseIcon className="w-6 h-6"/>
             </button>
         </div>
-        <div className="p-2">
-            <button onClick={createNewSession} className="w-full flex items-center justify-center gap-2 p-2 rounded-md bg-indigo-600 hover:bg-indigo-500 transition-colors shadow-lg hover:shadow-indigo-500/50">
-                <NewChatIcon className="w-5 h-5" />
-                New Chat
-            </button>
-        </div>
-        <nav className="flex-grow overflow-y-auto p-2 space-y-1 pb-40">
-          {sessions.map((session) => (
-            <div key={session.id} className="relative group">
-              {renamingSessionId === session.id ? (
-                <div className="flex items-center gap-2 p-1">
-                  <input
-                    type="text"
-                    value={tempTitle}
-                    onChange={(e) => setTempTitle(e.target.value)}
-                    onKeyDown={(e) => {
-                        if (e.key === 'Enter') handleSaveRename(session.id);
-                        if (e.key === 'Escape') setRenamingSessionId(null);
-                    }}
-                    onBlur={() => handleSaveRename(session.id)}
-                    className="w-full bg-gray-600 text-white px-2 py-1.5 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                    autoFocus
-                  />
-                  <button onClick={() => handleSaveRename(session.id)} className="p-1 text-gray-300 hover:text-white">
-                      <CheckIcon className="w-5 h-5" />
-                  </button>
-                </div>
-              ) : (
-                <a
-                  href="#"
-                  onClick={(e) => {
-                      e.preventDefault();
-                      setActiveSessionId(session.id);
-                      if (window.innerWidth < 768) {
-                        setIsSidebarOpen(false);
-                      }
-                  }}
-                  className={`block w-full text-left pl-3 pr-8 py-2 rounded-md text-sm truncate transition-colors ${
-                    session.id === activeSessionId ? 'bg-gray-700' : 'hover:bg-gray-800'
-                  }`}
+        <div className="p-2 relative" ref={personaMenuRef}>
+            <div className="flex rounded-md bg-indigo-600 shadow-lg hover:shadow-indigo-500/50 transition-shadow">
+                <button onClick={() => createNewSession()} className="flex-1 flex items-center justify-center gap-2 p-2 rounded-l-md hover:bg-indigo-500 transition-colors">
+                    <NewChatIcon className="w-5 h-5" />
+                    New Chat
+                </button>
+                <button
+                    onClick={() => setIsPersonaMenuOpen(o => !o)}
+                    className="px-2 rounded-r-md border-l border-indigo-500 hover:bg-indigo-500 transition-colors"
+                    aria-label="New chat with a persona"
+                    title="New chat with a persona"
                 >
-                  {session.title}
-                </a>
-              )}
-              {renamingSessionId !== session.id && (
-                <div className="absolute top-1/2 -translate-y-1/2 right-1.5 opacity-0 group-hover:opacity-100 transition-opacity">
-                  <button onClick={() => setOpenMenuSessionId(session.id === openMenuSessionId ? null : session.id)} className="p-1 text-gray-400 hover:text-white rounded-md">
-                    <MoreVerticalIcon className="w-4 h-4" />
-                  </button>
-                  {openMenuSessionId === session.id && (
-                    <div ref={menuRef} className="absolute top-full mt-1 right-0 w-32 bg-gray-950/80 backdrop-blur-md border border-gray-700 rounded-lg shadow-2xl z-10 animate-fade-in-up">
-                      <button onClick={(e) => { e.stopPropagation(); handleStartRename(session); }} className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left hover:bg-gray-800 transition-colors rounded-t-lg">
-                          <EditIcon className="w-4 h-4" /> Rename
-                      </button>
-                      <button onClick={(e) => { e.stopPropagation(); handleDeleteSession(session.id); }} className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left text-red-400 hover:bg-gray-800 transition-colors rounded-b-lg">
-                          <TrashIcon className="w-4 h-4" /> Delete
-                      </button>
-                    </div>
-                  )}
+                    <ChevronDownIcon className={`w-4 h-4 transition-transform ${isPersonaMenuOpen ? 'rotate-180' : ''}`} />
+                </button>
+            </div>
+            {isPersonaMenuOpen && (
+                <div className="absolute left-2 right-2 top-full mt-1 bg-gray-900/95 backdrop-blur-md border border-gray-700 rounded-lg shadow-2xl overflow-hidden animate-fade-in-up z-30">
+                    {settings.personas.length === 0 && (
+                        <p className="px-4 py-2.5 text-sm text-gray-500">No personas yet.</p>
+                    )}
+                    {settings.personas.map(persona => (
+                        <button
+                            key={persona.id}
+                            onClick={() => createNewSession(persona)}
+                            className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-left hover:bg-indigo-500/30 transition-colors"
+                        >
+                            <span className="w-5 text-center flex-shrink-0">{persona.icon}</span>
+                            <span className="truncate">{persona.name}</span>
+                        </button>
+                    ))}
+                    <button onClick={() => { setIsPersonaMenuOpen(false); setSettingsSection('personas'); }} className="w-full px-4 py-2.5 text-sm text-left text-gray-400 hover:bg-gray-800 border-t border-gray-700 transition-colors">
+                        Manage personas…
+                    </button>
                 </div>
-              )}
+            )}
+        </div>
+        {storageWarning && (
+            <div className="mx-2 mb-2 p-2 text-xs text-amber-300 bg-amber-900/30 border border-amber-800/60 rounded-md">
+                {storageWarning}
+            </div>
+        )}
+        <div className="px-2 pb-2">
+            <div className="relative">
+                <SearchIcon className="w-4 h-4 absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none" />
+                <input
+                    type="search"
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Escape') setSearchQuery(''); }}
+                    placeholder="Search all chats"
+                    className="w-full bg-gray-800/70 text-sm text-white pl-8 pr-2 py-1.5 rounded-md placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
             </div>
+        </div>
+        {isSearching ? (
+        <nav className="flex-grow overflow-y-auto p-2 space-y-1 pb-40">
+          {searchHits.length === 0 && (
+            <p className="px-3 py-2 text-sm text-gray-500">No messages match "{searchQuery.trim()}".</p>
+          )}
+          {searchHits.map((hit) => (
+            <button
+              key={`${hit.sessionId}-${hit.messageId}`}
+              onClick={() => handleOpenSearchHit(hit.sessionId, hit.messageId)}
+              className="block w-full text-left px-3 py-2 rounded-md hover:bg-gray-800 transition-colors"
+            >
+              <div className="flex items-center justify-between gap-2 text-xs text-gray-400">
+                <span className="truncate font-medium text-gray-200">{hit.sessionTitle}</span>
+                <span className="flex-shrink-0">{hit.role === 'user' ? 'You' : 'PKP.ai'}</span>
+              </div>
+              <p className="mt-0.5 text-xs text-gray-400 line-clamp-3 break-words">
+                {hit.snippet.map((segment, i) => segment.match
+                  ? <mark key={i} className="bg-indigo-500/40 text-white rounded-sm px-0.5">{segment.text}</mark>
+                  : <span key={i}>{segment.text}</span>)}
+              </p>
+            </button>
           ))}
         </nav>
+        ) : (
+        <SessionList
+            sessions={sessions}
+            folders={folders}
+            activeSessionId={activeSessionId}
+            onSelectSession={handleSelectSession}
+            onUpdateSession={updateSession}
+            onDeleteSession={handleDeleteSession}
+            onExportSession={handleExportSession}
+            onCreateFolder={handleCreateFolder}
+            onUpdateFolder={handleUpdateFolder}
+            onDeleteFolder={handleDeleteFolder}
+        />
+        )}
+        <div className="p-2 border-t border-gray-800 flex gap-2">
+            <input type="file" ref={importInputRef} onChange={handleImportFile} accept="application/json,.json" className="hidden" />
+            <button onClick={() => importInputRef.current?.click()} className="flex-1 flex items-center justify-center gap-1.5 p-2 rounded-md text-sm text-gray-300 hover:bg-gray-800 hover:text-white transition-colors">
+                <UploadIcon className="w-4 h-4" /> Import
+            </button>
+            <button onClick={handleExportAll} disabled={sessions.length === 0} className="flex-1 flex items-center justify-center gap-1.5 p-2 rounded-md text-sm text-gray-300 hover:bg-gray-800 hover:text-white transition-colors disabled:opacity-40">
+                <DownloadIcon className="w-4 h-4" /> Export all
+            </button>
+            <button onClick={() => setSettingsSection('personas')} className="p-2 rounded-md text-gray-300 hover:bg-gray-800 hover:text-white transition-colors" aria-label="Settings" title="Settings">
+                <SettingsIcon className="w-4 h-4" />
+            </button>
+        </div>
       </aside>
 
       {/* Mobile Overlay */}
@@ -294,6 +478,18 @@ const App: React.FC = () => {
               streamToSession={streamToSession} 
               updateMessageInSession={updateMessageInSession}
               onCancelGeneration={handleCancelGeneration}
+              focusMessageId={focusMessageId}
+              onFocusMessageHandled={() => setFocusMessageId(null)}
+              brandKits={settings.brandKits}
+              onManageBrandKits={() => setSettingsSection('brandKits')}
+              imageStylePresets={settings.imageStylePresets}
+              onCreateStylePreset={handleCreateStylePreset}
+              onManageStylePresets={() => setSettingsSection('imageStyles')}
+              imageUploadSettings={settings.imageUpload}
+              personas={settings.personas}
+              onManagePersonas={() => setSettingsSection('personas')}
+              autoRouting={settings.autoRouting}
+              onManageRouting={() => setSettingsSection('routing')}
           />
         ) : (
           <div className="flex h-full items-center justify-center bg-gray-900/50">
@@ -301,6 +497,10 @@ const App: React.FC = () => {
           </div>
         )}
       </main>
+
+      {settingsSection && (
+        <SettingsModal settings={settings} onUpdateSettings={handleUpdateSettings} onClose={handleCloseSettings} initialSection={settingsSection} />
+      )}
     </div>
   );
 };
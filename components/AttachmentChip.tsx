@@ -0,0 +1,58 @@
+import React from 'react';
+import type { Attachment } from '../types';
+import { XCircleIcon } from './icons';
+import { formatFileSize, getAttachmentKind, getAttachmentSize } from '../utils/attachments';
+import { base64ToBytes } from '../utils/binary';
+import { downloadFile } from '../utils/download';
+
+interface AttachmentChipProps {
+  attachment: Attachment;
+  // Shows a remove button when set.
+  onRemove?: () => void;
+}
+
+const AttachmentChip: React.FC<AttachmentChipProps> = ({ attachment, onRemove }) => {
+  const kind = getAttachmentKind(attachment);
+  const extension = attachment.name.includes('.') ? attachment.name.split('.').pop()!.toUpperCase() : kind.toUpperCase();
+  const size = getAttachmentSize(attachment);
+  const { original, originalSize } = attachment;
+
+  return (
+    <div className="flex items-center gap-2 max-w-[14rem] p-1.5 pr-2 rounded-lg bg-gray-900/60 border border-gray-700 text-left" title={attachment.name}>
+      {kind === 'image' ? (
+        <img src={`data:${attachment.mimeType};base64,${attachment.data}`} alt="" className="w-9 h-9 rounded object-cover flex-shrink-0" />
+      ) : (
+        <span className={`w-9 h-9 flex-shrink-0 rounded flex items-center justify-center text-[10px] font-semibold ${kind === 'pdf' ? 'bg-red-500/20 text-red-300' : 'bg-indigo-500/20 text-indigo-300'}`}>
+          {extension.slice(0, 4)}
+        </span>
+      )}
+      <div className="min-w-0">
+        <p className="text-xs text-gray-200 truncate">{attachment.name}</p>
+        {originalSize !== undefined ? (
+          <p className="text-[10px] text-gray-400" title="Resized and re-encoded before upload; location and camera data removed">
+            {formatFileSize(originalSize)} → {formatFileSize(size)}
+            {originalSize > size && <span className="text-green-400">{` (−${Math.round((1 - size / originalSize) * 100)}%)`}</span>}
+            {original && (
+              <button
+                onClick={() => downloadFile(base64ToBytes(original.data), `${attachment.name.replace(/\.[^.]+$/, '')}-original.${original.mimeType.split('/')[1] ?? 'img'}`, original.mimeType)}
+                className="ml-1 underline hover:text-white"
+                title="Download the original file, which stays on this device"
+              >
+                original
+              </button>
+            )}
+          </p>
+        ) : (
+          <p className="text-[10px] text-gray-400">{formatFileSize(size)}</p>
+        )}
+      </div>
+      {onRemove && (
+        <button onClick={onRemove} className="p-0.5 text-gray-400 hover:text-white rounded-full flex-shrink-0" aria-label={`Remove ${attachment.name}`}>
+          <XCircleIcon className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentChip;
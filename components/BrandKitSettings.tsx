@@ -0,0 +1,203 @@
+import React, { useRef, useState } from 'react';
+import type { BrandColors, BrandFont, BrandKit, Slide, TitleSlideLayout } from '../types';
+import { NewChatIcon, TrashIcon, UploadIcon } from './icons';
+import SlideRenderer, { SlideStyles } from './SlideRenderer';
+import { BRAND_FONTS, TITLE_SLIDE_LAYOUTS, createBrandKit } from '../utils/brandKit';
+
+interface BrandKitSettingsProps {
+  brandKits: BrandKit[];
+  onChange: (brandKits: BrandKit[]) => void;
+}
+
+const COLOR_LABELS: Record<keyof BrandColors, string> = {
+  background: 'Background',
+  surface: 'Panels',
+  text: 'Text',
+  muted: 'Secondary text',
+  accent: 'Accent',
+};
+
+const PREVIEW_SLIDES: Slide[] = [
+  { id: 'preview-title', layout: 'title', title: 'Quarterly review', subtitle: 'Results and next steps' },
+  { id: 'preview-bullets', layout: 'bullets', title: 'Highlights', bullets: ['Revenue up 12% on last quarter', 'Two new regions launched', 'Support response time halved'] },
+];
+
+// Logos are stored inside every deck that uses the kit, so they are scaled down first.
+const LOGO_MAX_SIZE = 400;
+
+const readLogo = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const img = new Image();
+  img.onload = () => {
+    const scale = Math.min(1, LOGO_MAX_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+    canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+    URL.revokeObjectURL(url);
+    // PNG keeps transparent backgrounds.
+    resolve(canvas.toDataURL('image/png'));
+  };
+  img.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('The logo could not be read.'));
+  };
+  img.src = url;
+});
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500';
+
+const BrandKitSettings: React.FC<BrandKitSettingsProps> = ({ brandKits, onChange }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(brandKits[0]?.id ?? null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  const kit = brandKits.find(k => k.id === selectedId) ?? brandKits[0];
+  // Read after awaits, so edits made while a logo loads are kept.
+  const brandKitsRef = useRef(brandKits);
+  brandKitsRef.current = brandKits;
+
+  const updateKit = (id: string, updates: Partial<BrandKit>) => {
+    onChange(brandKitsRef.current.map(k => (k.id === id ? { ...k, ...updates } : k)));
+  };
+
+  const update = (updates: Partial<BrandKit>) => {
+    if (kit) updateKit(kit.id, updates);
+  };
+
+  const handleCreate = () => {
+    const created = createBrandKit(`Brand kit ${brandKits.length + 1}`);
+    onChange([...brandKits, created]);
+    setSelectedId(created.id);
+  };
+
+  const handleDelete = () => {
+    if (!kit || !window.confirm(`Delete the brand kit "${kit.name}"? Decks that already use it keep their look.`)) return;
+    const remaining = brandKits.filter(k => k.id !== kit.id);
+    onChange(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  const handleLogoFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (event.target) event.target.value = '';
+    if (!file || !kit) return;
+    const kitId = kit.id;
+    try {
+      updateKit(kitId, { logo: await readLogo(file) });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'The logo could not be read.');
+    }
+  };
+
+  return (
+    <div className="flex gap-6 h-full min-h-0">
+      <div className="w-48 flex-shrink-0 flex flex-col gap-1">
+        {brandKits.map(k => (
+          <button
+            key={k.id}
+            onClick={() => setSelectedId(k.id)}
+            className={`flex items-center gap-2 px-3 py-2 rounded-md text-sm text-left transition-colors ${k.id === kit?.id ? 'bg-gray-800 text-white' : 'text-gray-300 hover:bg-gray-800/60'}`}
+          >
+            <span className="w-3 h-3 flex-shrink-0 rounded-full border border-white/30" style={{ background: k.colors.accent }} />
+            <span className="truncate">{k.name}</span>
+          </button>
+        ))}
+        <button onClick={handleCreate} className="flex items-center gap-2 px-3 py-2 rounded-md text-sm text-indigo-300 hover:bg-gray-800/60 transition-colors">
+          <NewChatIcon className="w-4 h-4" /> New brand kit
+        </button>
+      </div>
+
+      {kit ? (
+        <div className="flex-1 min-w-0 overflow-y-auto space-y-5 pr-1">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="block text-xs text-gray-400 space-y-1">
+              <span>Name</span>
+              <input type="text" value={kit.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+            </label>
+            <label className="block text-xs text-gray-400 space-y-1">
+              <span>Footer text</span>
+              <input type="text" value={kit.footerText} onChange={(e) => update({ footerText: e.target.value })} placeholder="No footer" className={inputClass} />
+            </label>
+          </div>
+
+          <div className="space-y-1">
+            <span className="block text-xs text-gray-400">Logo</span>
+            <div className="flex items-center gap-3">
+              {kit.logo
+                ? <img src={kit.logo} alt="Logo" className="h-10 max-w-[10rem] object-contain rounded bg-gray-800 p-1" />
+                : <span className="text-sm text-gray-500">No logo</span>}
+              <input type="file" ref={logoInputRef} onChange={handleLogoFile} accept="image/*" className="hidden" />
+              <button onClick={() => logoInputRef.current?.click()} className="flex items-center gap-1.5 px-3 py-1.5 rounded bg-gray-800 hover:bg-gray-700 text-sm">
+                <UploadIcon className="w-4 h-4" /> {kit.logo ? 'Replace' : 'Upload'}
+              </button>
+              {kit.logo && (
+                <button onClick={() => update({ logo: undefined })} className="px-3 py-1.5 rounded text-sm text-gray-400 hover:text-white hover:bg-gray-800">
+                  Remove
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <span className="block text-xs text-gray-400">Colours</span>
+            <div className="flex flex-wrap gap-4">
+              {(Object.keys(COLOR_LABELS) as (keyof BrandColors)[]).map(key => (
+                <label key={key} className="flex items-center gap-2 text-sm text-gray-300">
+                  <input
+                    type="color"
+                    value={kit.colors[key]}
+                    onChange={(e) => update({ colors: { ...kit.colors, [key]: e.target.value } })}
+                    className="w-8 h-8 rounded bg-transparent border border-gray-700 cursor-pointer"
+                  />
+                  {COLOR_LABELS[key]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <label className="block text-xs text-gray-400 space-y-1">
+              <span>Heading font</span>
+              <select value={kit.headingFont} onChange={(e) => update({ headingFont: e.target.value as BrandFont })} className={inputClass}>
+                {(Object.keys(BRAND_FONTS) as BrandFont[]).map(font => <option key={font} value={font}>{BRAND_FONTS[font].label}</option>)}
+              </select>
+            </label>
+            <label className="block text-xs text-gray-400 space-y-1">
+              <span>Body font</span>
+              <select value={kit.bodyFont} onChange={(e) => update({ bodyFont: e.target.value as BrandFont })} className={inputClass}>
+                {(Object.keys(BRAND_FONTS) as BrandFont[]).map(font => <option key={font} value={font}>{BRAND_FONTS[font].label}</option>)}
+              </select>
+            </label>
+            <label className="block text-xs text-gray-400 space-y-1">
+              <span>Title slide</span>
+              <select value={kit.titleLayout} onChange={(e) => update({ titleLayout: e.target.value as TitleSlideLayout })} className={inputClass}>
+                {(Object.keys(TITLE_SLIDE_LAYOUTS) as TitleSlideLayout[]).map(layout => <option key={layout} value={layout}>{TITLE_SLIDE_LAYOUTS[layout]}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <div className="space-y-1">
+            <span className="block text-xs text-gray-400">Preview</span>
+            <SlideStyles />
+            <div className="grid grid-cols-2 gap-3">
+              {PREVIEW_SLIDES.map((slide, i) => (
+                <div key={slide.id} className="rounded overflow-hidden border border-gray-800">
+                  <SlideRenderer slide={slide} index={i} total={PREVIEW_SLIDES.length} theme={kit} />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <button onClick={handleDelete} className="flex items-center gap-1.5 px-3 py-1.5 rounded text-sm text-red-400 hover:bg-red-500/10">
+            <TrashIcon className="w-4 h-4" /> Delete brand kit
+          </button>
+        </div>
+      ) : (
+        <div className="flex-1 flex items-center justify-center text-sm text-gray-500 text-center px-6">
+          Brand kits give new decks your logo, colours, fonts and footer. Create one to choose it in Presentation mode.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BrandKitSettings;
@@ -1,107 +1,104 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import type { Message, ChatSession, Source } from '../types';
-import { generateTextWithSearchStream, generateImage, generatePresentationStream } from '../services/geminiService';
-import { SendIcon, TextIcon, ImageIcon, AiIcon, PresentationIcon, ChevronDownIcon, ArrowDownCircleIcon, PkpIcon, SpinnerIcon, DownloadIcon, PaperclipIcon, XCircleIcon, CloseIcon, EditIcon } from './icons';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import type { Attachment, Message, ChatSession, Source, ProviderId, Deck, BrandKit, ImageParams, ImageStylePreset, ImageUploadSettings, Intent, Persona } from '../types';
+import { generateTextWithSearchStream, generateImages, generatePresentationStream, editSlides, classifyIntent } from '../services/geminiService';
+import { buildContext } from '../services/contextBuilder';
+import { getProvider, listProviders, resolveModel } from '../services/providers';
+import { SendIcon, TextIcon, ImageIcon, AiIcon, PresentationIcon, ChevronDownIcon, ArrowDownCircleIcon, PkpIcon, SpinnerIcon, DownloadIcon, PaperclipIcon, XCircleIcon, CloseIcon, EditIcon, RefreshIcon, ChevronLeftIcon, ChevronRightIcon, PinIcon } from './icons';
 import PresentationView from './PresentationView';
+import DeckCompareView from './DeckCompareView';
+import PersonaDialog from './PersonaDialog';
+import ModelSettingsPanel from './ModelSettingsPanel';
+import ImageOptionsBar, { ImageOptions } from './ImageOptionsBar';
+import AttachmentChip from './AttachmentChip';
+import SlideRenderer, { SlideStyles } from './SlideRenderer';
+import { renderMarkdown, handleCodeCopyClick } from '../utils/markdown';
+import { cleanHtmlContent, htmlToDeck, sanitizePresentationHtml } from '../utils/presentationHtml';
+import { downloadFile, toFileSlug } from '../utils/download';
+import { parseDeck, parsePartialDeck, deckToOutline, replaceSlides, alignSlideIds, createDeckId, getDeckId, getDeckVersion, listDeckVersions, nextDeckVersion } from '../utils/deck';
+import { exportDeckToHtml, exportDeckToPptx, exportDeckToPdf } from '../services/deckExport';
+import { getActivePath, getSiblings, getParentId, getLeafForBranch } from '../utils/conversationTree';
+import { DEFAULT_IMAGE_PARAMS, IMAGE_ASPECT_RATIOS, createStylePreset } from '../utils/imageOptions';
+import { dataUrlToInline, findLatestImage, getImageChain, isImageReply } from '../utils/imageEdits';
+import { ATTACHMENT_ACCEPT, MAX_ATTACHMENTS, MAX_TOTAL_ATTACHMENT_BYTES, fitAttachments, formatFileSize, getAttachmentKind, readAttachment } from '../utils/attachments';
+import { describeGenerationConfig, getGenerationConfig, getStructuredGenerationConfig } from '../utils/modelSettings';
+import { INTENT_LABELS } from '../utils/intent';
+import { createPersona } from '../utils/personas';
 
 interface ChatViewProps {
   session: ChatSession;
-  updateSession: (sessionId: string, updates: Partial<ChatSession>) => void;
+  updateSession: (sessionId: string, updates: Partial<ChatSession> | ((session: ChatSession) => Partial<ChatSession>)) => void;
   streamToSession: (sessionId: string, messageId: string, chunk: { text?: string; sources?: Source[] }) => void;
   updateMessageInSession: (sessionId: string, messageId: string, updates: Partial<Message>) => void;
   onCancelGeneration: (sessionId: string) => void;
+  // Message to scroll to and highlight, e.g. a search result; cleared through `onFocusMessageHandled`.
+  focusMessageId?: string | null;
+  onFocusMessageHandled?: () => void;
+  brandKits: BrandKit[];
+  onManageBrandKits: () => void;
+  imageStylePresets: ImageStylePreset[];
+  onCreateStylePreset: (preset: ImageStylePreset) => void;
+  onManageStylePresets: () => void;
+  imageUploadSettings: ImageUploadSettings;
+  personas: Persona[];
+  onManagePersonas: () => void;
+  // Whether Chat mode messages are classified and sent in the mode they ask for.
+  autoRouting: boolean;
+  onManageRouting: () => void;
 }
 
-type Part = { text: string } | { inlineData: { mimeType: string; data: string } };
-type Content = { role: 'user' | 'model'; parts: Part[] };
+// A slow classification shouldn't hold up the message; it is sent as a chat message instead.
+const INTENT_TIMEOUT_MS = 5000;
 
-// Robust HTML extractor: Finds HTML document even if surrounded by text or markdown
-const cleanHtmlContent = (content: string): string => {
-  if (!content) return "";
-  
-  // Find start: <!doctype html> or <html, case insensitive
-  // We look for the tag start.
-  const startMatch = content.match(/<!doctype\s+html>|<html/i);
-  if (!startMatch || startMatch.index === undefined) return "";
-  
-  // Start substring from the tag
-  let html = content.substring(startMatch.index);
-  
-  // Find end: </html>
-  const endMatch = html.match(/<\/html>/i);
-  if (endMatch && endMatch.index !== undefined) {
-      // Cut off everything after </html>
-      html = html.substring(0, endMatch.index + 7);
-  } else {
-      // If incomplete (streaming), just strip trailing markdown ticks or text
-      html = html.replace(/```(html)?\s*$/i, '');
-  }
-  
-  return html.trim();
-};
-
-// Helper to clean history. 
-// CRITICAL: We MUST preserve the HTML of the presentation we are editing, otherwise the AI hallucinates.
-const sanitizeHistoryContent = (content: string, preserveFullHtml: boolean = false): string => {
-  if (!content) return "";
-  
-  // 1. Remove base64 images to save tokens
-  let clean = content.replace(/data:image\/[a-zA-Z0-9+.-]+;base64,[^"'\s)]+/g, "[Base64 Image Data Removed]");
-  
-  // 2. If NOT preserving this specific message's HTML, replace large HTML blocks with a placeholder
-  if (!preserveFullHtml) {
-      // Use the same regex logic as cleanHtmlContent to identify the block
-      const startMatch = clean.match(/<!doctype\s+html>|<html/i);
-      
-      if (startMatch && startMatch.index !== undefined) {
-          const before = clean.substring(0, startMatch.index);
-          // We assume the endMatch is after startMatch in valid HTML
-          const afterIndex = clean.toLowerCase().lastIndexOf('</html>') + 7;
-          
-          if (afterIndex > startMatch.index) {
-             const after = clean.substring(afterIndex);
-             clean = before + "\n\n[Presentation HTML Code Omitted to Save Context]\n\n" + after;
-          }
-      }
-  }
-  return clean;
-};
-
-// A simple markdown to HTML converter for chat bubbles
-const simpleMarkdownToHtml = (markdown: string): string => {
+// Renders a chat bubble's Markdown to sanitized HTML
+const messageToHtml = (markdown: string): string => {
   if (!markdown) return '';
   // If it's a presentation, hide the raw code in the text bubble
   if (cleanHtmlContent(markdown).length > 20) {
     return "<em>(Presentation generated. Click 'Present' to view.)</em>"; 
   }
-
-  let html = markdown
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;');
-  
-  html = html.replace(/^\s*[\*\-]\s(.*)/gm, '<li>$1</li>');
-  html = html.replace(/(<li>.*<\/li>)/s, '<ul>$1</ul>').replace(/<\/li>\s?<li>/g, '</li><li>');
-  html = html.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
-  return html.replace(/\n/g, '<br />');
+  return renderMarkdown(markdown);
 };
 
-const ChatView: React.FC<ChatViewProps> = ({ session, updateSession, streamToSession, updateMessageInSession, onCancelGeneration }) => {
+const ChatView: React.FC<ChatViewProps> = ({ session, updateSession, streamToSession, updateMessageInSession, onCancelGeneration, focusMessageId, onFocusMessageHandled, brandKits, onManageBrandKits, imageStylePresets, onCreateStylePreset, onManageStylePresets, imageUploadSettings, personas, onManagePersonas, autoRouting, onManageRouting }) => {
   const [input, setInput] = useState('');
   const [mode, setMode] = useState<'text' | 'image' | 'presentation'>('text');
   const [isLoading, setIsLoading] = useState(false);
   const [isAutoScrollEnabled, setIsAutoScrollEnabled] = useState(true);
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
+  const [isProviderDropdownOpen, setIsProviderDropdownOpen] = useState(false);
+  const [isBrandDropdownOpen, setIsBrandDropdownOpen] = useState(false);
+  const [isPersonaDropdownOpen, setIsPersonaDropdownOpen] = useState(false);
+  const [isModelPanelOpen, setIsModelPanelOpen] = useState(false);
+  // Persona being edited for this chat: its current one, or a new chat-only one.
+  const [editingPersona, setEditingPersona] = useState<Persona | null>(null);
   const [isInitialView, setIsInitialView] = useState(session.messages.length === 0);
-  const [attachment, setAttachment] = useState<{ data: string; mimeType: string; name: string } | null>(null);
-  const [presentationHtml, setPresentationHtml] = useState<string | null>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [imageOptions, setImageOptions] = useState<ImageOptions>({ ...DEFAULT_IMAGE_PARAMS, styleId: null });
+  // Image the next image prompt edits: undefined follows the latest one, null starts a new image.
+  const [imageEditBaseId, setImageEditBaseId] = useState<string | null | undefined>(undefined);
+  // The last message auto-routing sent in another mode, until it is undone or another message is sent.
+  const [autoRouted, setAutoRouted] = useState<{ userMessageId: string; intent: Intent } | null>(null);
+  // User message to answer again in Chat mode once the routed reply has stopped.
+  const [undoRouteMessageId, setUndoRouteMessageId] = useState<string | null>(null);
+  // A deck message being presented; `version` picks an earlier version than the message's current one.
+  const [presented, setPresented] = useState<{ messageId: string; version?: number } | null>(null);
+  const [comparing, setComparing] = useState<{ deckId: string; before: number; after: number } | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const providerDropdownRef = useRef<HTMLDivElement>(null);
+  const brandDropdownRef = useRef<HTMLDivElement>(null);
+  const personaDropdownRef = useRef<HTMLDivElement>(null);
+  const modelPanelRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  // The chat on screen, for async work that must not act on a chat the user has left.
+  const sessionIdRef = useRef(session.id);
+  sessionIdRef.current = session.id;
 
   useEffect(() => {
     setIsInitialView(session.messages.length === 0);
@@ -121,32 +118,126 @@ const ChatView: React.FC<ChatViewProps> = ({ session, updateSession, streamToSes
       if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
         setIsDropdownOpen(false);
       }
+      if (providerDropdownRef.current && !providerDropdownRef.current.contains(event.target as Node)) {
+        setIsProviderDropdownOpen(false);
+      }
+      if (brandDropdownRef.current && !brandDropdownRef.current.contains(event.target as Node)) {
+        setIsBrandDropdownOpen(false);
+      }
+      if (personaDropdownRef.current && !personaDropdownRef.current.contains(event.target as Node)) {
+        setIsPersonaDropdownOpen(false);
+      }
+      if (modelPanelRef.current && !modelPanelRef.current.contains(event.target as Node)) {
+        setIsModelPanelOpen(false);
+      }
     };
     document.addEventListener("mousedown", handleClickOutside);
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, [dropdownRef]);
 
+  const provider = getProvider(session.providerId);
+  const activePath = getActivePath(session);
+  // A kit deleted in settings falls back to the default look.
+  const brandKit = brandKits.find(k => k.id === session.brandKitId);
+
+  useEffect(() => {
+    if (!focusMessageId || !session.messages.some(m => m.id === focusMessageId)) return;
+    // A hit on another branch switches to it first; this effect runs again once it is shown.
+    if (!activePath.some(m => m.id === focusMessageId)) {
+        updateSession(session.id, { activeLeafId: getLeafForBranch(session, focusMessageId) });
+        return;
+    }
+    setHighlightedMessageId(focusMessageId);
+    requestAnimationFrame(() => {
+        document.getElementById(`message-${focusMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    });
+    onFocusMessageHandled?.();
+  }, [focusMessageId, session, activePath, updateSession, onFocusMessageHandled]);
+
+  useEffect(() => {
+    setImageEditBaseId(undefined);
+    setAutoRouted(null);
+    // A new chat opens in its persona's mode; existing chats keep the one in use.
+    if (session.persona && session.messages.length === 0) setMode(session.persona.defaultMode);
+  }, [session.id]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 3000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  const handleSelectProvider = (providerId: ProviderId) => {
+    updateSession(session.id, { providerId });
+    setIsProviderDropdownOpen(false);
+  };
+
+  // Instructions for this chat alone, without a persona in the library.
+  const handleEditChatInstructions = () => {
+    setIsPersonaDropdownOpen(false);
+    setEditingPersona(session.persona ?? { ...createPersona('Custom instructions'), icon: '📝' });
+  };
+
+  // Switching copies the library persona into the chat; it applies from the next message.
+  const handleSelectPersona = (persona?: Persona) => {
+    updateSession(session.id, { persona: persona ? { ...persona } : undefined });
+    setIsPersonaDropdownOpen(false);
+  };
+
   const handleFirstInteraction = useCallback(() => {
     if (isInitialView) {
       setIsInitialView(false);
     }
   }, [isInitialView]);
 
+  // Adds picked, dropped or pasted files to the composer; files that can't be attached are reported together.
+  const addFiles = async (files: File[]) => {
+    if (!files.length) return;
+    handleFirstInteraction();
+    const room = MAX_ATTACHMENTS - attachments.length;
+    const problems: string[] = files.length > room ? [`Only ${MAX_ATTACHMENTS} files can be attached to a message.`] : [];
+    const results = await Promise.allSettled(files.slice(0, Math.max(0, room)).map(file => readAttachment(file, imageUploadSettings)));
+    const read = results.flatMap(result => {
+      if (result.status === 'fulfilled') return [result.value];
+      problems.push(result.reason instanceof Error ? result.reason.message : String(result.reason));
+      return [];
+    });
+    const { accepted: added, rejected } = fitAttachments(attachments, read);
+    rejected.forEach(a => problems.push(`${a.name} wasn't added: a message's files can total at most ${formatFileSize(MAX_TOTAL_ATTACHMENT_BYTES)}.`));
+    if (added.length) setAttachments(prev => [...prev, ...added].slice(0, MAX_ATTACHMENTS));
+    if (problems.length) alert(problems.join('\n'));
+  };
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file && file.type.startsWith('image/')) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const result = e.target?.result as string;
-        const [, data] = result.split(',');
-        const mimeType = result.match(/:(.*?);/)?.[1] ?? file.type;
-        setAttachment({ data, mimeType, name: file.name });
-      };
-      reader.readAsDataURL(file);
-    }
+    addFiles(Array.from<File>(event.target.files ?? []));
     if(event.target) event.target.value = '';
   };
 
+  const handlePaste = (event: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from<File>(event.clipboardData.files);
+    if (!files.length) return;
+    event.preventDefault();
+    addFiles(files);
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    if (isLoading || !event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    // Moving between child elements fires dragleave too; only leaving the view counts.
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setIsDraggingFiles(false);
+    if (!isLoading) addFiles(Array.from<File>(event.dataTransfer.files));
+  };
+
   const handleCancelGeneration = useCallback(() => {
     if (abortControllerRef.current) {
         abortControllerRef.current.abort();
@@ -155,40 +246,19 @@ const ChatView: React.FC<ChatViewProps> = ({ session, updateSession, streamToSes
     onCancelGeneration(session.id);
   }, [session.id, onCancelGeneration]);
 
-  const handleSendMessage = async (customInput?: string, customMode?: 'text' | 'image' | 'presentation') => {
-    const textToSend = customInput ?? input;
-    const trimmedInput = textToSend.trim();
-
-    if ((!trimmedInput && !attachment) || isLoading) return;
-
-    // Detect Presentation Intent
-    let modeToUse = customMode ?? mode;
-    const lowerInput = trimmedInput.toLowerCase();
-    
-    const presentationKeywords = ['presentation', 'slide', 'deck', 'ppt', 'powerpoint'];
-    
-    // Only switch to presentation mode automatically if STRONG keywords are present.
-    // We removed the "edit" keywords check here to allow natural return to Text mode.
-    if (modeToUse === 'text') {
-        if (presentationKeywords.some(kw => lowerInput.includes(kw))) {
-            modeToUse = 'presentation';
-        } 
-    }
-
-    handleFirstInteraction();
-    if (!customInput) setInput('');
-
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      role: 'user',
-      content: trimmedInput,
-      type: 'text',
-      timestamp: new Date().toISOString(),
-      attachment: attachment ? { data: attachment.data, mimeType: attachment.mimeType } : undefined,
-      mode: modeToUse 
-    };
-
-    setAttachment(null);
+  // Streams an assistant reply to `userMessage`, using `historyMessages` (the branch before it) as context.
+  // `newMessages` are the messages to add to the session alongside the reply.
+  // A presentation reply to an edit of deck `editedDeckId` becomes that deck's next version.
+  // Image replies use `imageParams` when given (a re-roll), otherwise the image options bar, and edit
+  // image `imageBaseId` (null for none), by default the latest image in the history.
+  const generateReply = async (
+    userMessage: Message,
+    historyMessages: Message[],
+    modeToUse: 'text' | 'image' | 'presentation',
+    newMessages: Message[],
+    { editedDeckId, imageParams = getImageParams(), imageBaseId }: { editedDeckId?: string; imageParams?: ImageParams; imageBaseId?: string | null } = {}
+  ) => {
+    const trimmedInput = userMessage.content;
     setIsLoading(true);
     
     const controller = new AbortController();
@@ -202,82 +272,283 @@ const ChatView: React.FC<ChatViewProps> = ({ session, updateSession, streamToSes
         timestamp: new Date().toISOString(),
         status: 'in-progress',
         mode: modeToUse,
+        parentId: userMessage.id,
+        // Image models take no sampling parameters.
+        generatedWith: modeToUse === 'image'
+            ? { providerId: provider.id, model: resolveModel(provider, 'image', session.modelSettings?.imageModel), config: {} }
+            : {
+                providerId: provider.id,
+                model: resolveModel(provider, 'text', session.modelSettings?.textModel),
+                config: modeToUse === 'presentation' ? getStructuredGenerationConfig(session.modelSettings) : getGenerationConfig(session.modelSettings),
+            },
     };
+    const requestOptions = { providerId: provider.id, signal: controller.signal, persona: session.persona, modelSettings: session.modelSettings };
 
     try {
-        const updatedMessages = [...session.messages, userMessage, assistantMessage];
-        updateSession(session.id, { messages: updatedMessages });
+        // Appended to the latest messages: the chat may have changed while the message was being classified.
+        updateSession(session.id, current => ({ messages: [...current.messages, ...newMessages, assistantMessage], activeLeafId: assistantMessage.id }));
 
         if (modeToUse === 'image') {
-            const imageUrl = await generateImage(trimmedInput, userMessage.attachment);
+            // Uploaded images replace the edit base; other files can't guide an image.
+            const uploaded = (userMessage.attachments ?? []).filter(a => getAttachmentKind(a) === 'image');
+            const base = uploaded.length ? undefined
+                : imageBaseId === undefined ? findLatestImage(historyMessages)
+                : session.messages.find(m => m.id === imageBaseId);
+            const baseImage = base && dataUrlToInline(base.content);
+            const images = await generateImages(trimmedInput, baseImage ? [baseImage] : uploaded, imageParams, requestOptions);
             if (controller.signal.aborted) return;
-            updateMessageInSession(session.id, assistantMessage.id, { content: imageUrl, type: 'image', status: 'complete' });
+            updateMessageInSession(session.id, assistantMessage.id, { content: images[0], images, imageParams, ...(base ? { editOf: base.id } : {}), type: 'image', status: 'complete' });
             return;
         }
 
-        // FIND THE LAST PRESENTATION TO PRESERVE FOR EDITING
-        // We do this so the AI has the context to "edit the slide" even if we are in 'text' mode.
-        let lastPresentationId: string | null = null;
-        for (let i = session.messages.length - 1; i >= 0; i--) {
-            const msg = session.messages[i];
-            if (msg.role === 'assistant' && cleanHtmlContent(msg.content).length > 20) {
-                lastPresentationId = msg.id;
-                break;
-            }
-        }
-
-        // Token Optimization: Keep last 15 messages
-        let messagesToProcess = session.messages;
-        if (messagesToProcess.length > 15) {
-            messagesToProcess = messagesToProcess.slice(messagesToProcess.length - 15);
-        }
-
-        const history: Content[] = messagesToProcess.map((m, index) => {
-              const parts: Part[] = [];
-              
-              if (m.attachment) {
-                  if (messagesToProcess.length - index < 3) { 
-                       parts.push({ inlineData: { mimeType: m.attachment.mimeType, data: m.attachment.data } });
-                  } else {
-                       parts.push({ text: "[Image attachment removed to save context]" });
-                  }
-              }
-
-              if (m.content) {
-                  // CRITICAL FIX: Always preserve the LAST presentation, regardless of current mode.
-                  // This ensures that even if we slipped into 'text' mode, the AI knows the presentation content to "edit".
-                  const shouldPreserve = (m.id === lastPresentationId);
-                  const cleanText = sanitizeHistoryContent(m.content, shouldPreserve);
-                  parts.push({ text: cleanText });
-              }
-              return {
-                  role: m.role === 'user' ? 'user' : 'model' as 'user' | 'model',
-                  parts: parts,
-              };
-          })
-          .filter(h => h.parts.length > 0);
+        const { history, summary } = await buildContext(session, historyMessages, requestOptions);
+        if (summary) updateSession(session.id, { summary });
 
         const stream = modeToUse === 'presentation'
-            ? generatePresentationStream(trimmedInput, history)
-            : generateTextWithSearchStream(trimmedInput, history, userMessage.attachment);
+            ? generatePresentationStream(trimmedInput, history, userMessage.attachments, editedDeckId ? undefined : brandKit, requestOptions)
+            : generateTextWithSearchStream(trimmedInput, history, userMessage.attachments, requestOptions);
 
+        let reply = '';
         for await (const chunk of stream) {
             if (controller.signal.aborted) break;
              if (chunk.textChunk || chunk.sources) {
+                reply += chunk.textChunk ?? '';
                 streamToSession(session.id, assistantMessage.id, { text: chunk.textChunk, sources: chunk.sources });
             }
         }
+
+        // The deck streams in as JSON; once complete, keep it structured and show its outline as the text.
+        if (modeToUse === 'presentation' && !controller.signal.aborted) {
+            const parsed = parseDeck(reply);
+            if (!parsed) throw new Error('The model did not return a valid slide deck. Please try again.');
+            // The deck being edited is the one on this branch, not the newest version anywhere in the chat.
+            const base = editedDeckId
+                ? [...historyMessages].reverse().find(m => m.deck && getDeckId(m) === editedDeckId)?.deck
+                : undefined;
+            const createdAt = new Date().toISOString();
+            // An edit keeps the look of the deck it changes; a new deck gets the chat's brand kit.
+            const deck: Deck = base
+                ? { ...alignSlideIds(base, parsed), id: editedDeckId, version: nextDeckVersion(session.messages, editedDeckId!), note: trimmedInput.replace(/^Edit previous presentation:\s*/, ''), createdAt, theme: base.theme }
+                : { ...parsed, id: createDeckId(), version: 1, createdAt, theme: brandKit };
+            updateMessageInSession(session.id, assistantMessage.id, { deck, content: deckToOutline(deck) });
+        }
     } catch (error) {
         if (!controller.signal.aborted) {
             const content = error instanceof Error ? error.message : 'Sorry, something went wrong. Please try again.';
             updateMessageInSession(session.id, assistantMessage.id, { content, type: 'error', status: 'complete' });
         }
     } finally {
-        setIsLoading(false);
         if (!controller.signal.aborted) {
             updateMessageInSession(session.id, assistantMessage.id, { status: 'complete' });
         }
-        abortControllerRef.current = null;
+        // A reply started after this one was stopped owns the loading state now.
+        if (abortControllerRef.current === controller) {
+            setIsLoading(false);
+            abortControllerRef.current = null;
+        }
+    }
+  };
+
+  const handleSendMessage = async (customInput?: string, customMode?: 'text' | 'image' | 'presentation', editedDeckId?: string) => {
+    const textToSend = customInput ?? input;
+    const trimmedInput = textToSend.trim();
+
+    if ((!trimmedInput && !attachments.length) || isLoading) return;
+
+    let modeToUse = customMode ?? mode;
+    let deckToEdit = editedDeckId;
+    let intent: Intent | null = null;
+    // Taken now: the composer is cleared and locked while the message is classified.
+    const sentAttachments = attachments;
+    setAutoRouted(null);
+    handleFirstInteraction();
+    if (!customInput) setInput('');
+    setAttachments([]);
+
+    // Only Chat mode is routed; a mode picked from the menu is taken as meant.
+    if (autoRouting && !customMode && modeToUse === 'text' && trimmedInput) {
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setIsLoading(true);
+        let timedOut = false;
+        const timer = setTimeout(() => { timedOut = true; controller.abort(); }, INTENT_TIMEOUT_MS);
+        const latestDeck = [...activePath].reverse().find(m => m.deck);
+        intent = await classifyIntent(
+            trimmedInput,
+            sentAttachments,
+            { hasDeck: Boolean(latestDeck), hasImage: Boolean(findLatestImage(activePath)) },
+            { providerId: provider.id, signal: controller.signal }
+        );
+        clearTimeout(timer);
+        // Stopped by the user: nothing is sent and the draft goes back into the composer.
+        if (controller.signal.aborted && !timedOut) {
+            abortControllerRef.current = null;
+            if (!customInput) setInput(textToSend);
+            setAttachments(current => [...sentAttachments, ...current]);
+            return;
+        }
+        if (intent === 'image') modeToUse = 'image';
+        if (intent === 'presentation') modeToUse = 'presentation';
+        if (intent === 'edit-presentation' && latestDeck) {
+            modeToUse = 'presentation';
+            deckToEdit = getDeckId(latestDeck);
+        }
+    }
+
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      role: 'user',
+      content: trimmedInput,
+      type: 'text',
+      timestamp: new Date().toISOString(),
+      attachments: sentAttachments.length ? sentAttachments : undefined,
+      mode: modeToUse,
+      parentId: activePath[activePath.length - 1]?.id ?? null,
+    };
+
+    setImageEditBaseId(undefined);
+    // The message still goes to the chat it was sent from; the chip belongs to that chat only.
+    if (intent && modeToUse !== mode && sessionIdRef.current === session.id) setAutoRouted({ userMessageId: userMessage.id, intent });
+    await generateReply(userMessage, activePath, modeToUse, [userMessage], { editedDeckId: deckToEdit, imageBaseId: modeToUse === 'image' ? imageEditBaseId : undefined });
+  };
+
+  // Answers the routed message again as a chat reply; the routed reply stays as another branch.
+  const handleUndoAutoRoute = () => {
+    if (!autoRouted) return;
+    if (isLoading) handleCancelGeneration();
+    setUndoRouteMessageId(autoRouted.userMessageId);
+    setAutoRouted(null);
+  };
+
+  // Waits for a stopped reply to be marked as such, so the new one starts from the updated session.
+  useEffect(() => {
+    if (!undoRouteMessageId || isLoading) return;
+    setUndoRouteMessageId(null);
+    const index = activePath.findIndex(m => m.id === undoRouteMessageId);
+    if (index >= 0) generateReply(activePath[index], activePath.slice(0, index), 'text', []);
+  }, [undoRouteMessageId, isLoading]);
+
+  // Editing a user message adds a sibling branch next to it instead of rewriting history.
+  const handleEditMessage = async (message: Message, newContent: string) => {
+    const trimmedContent = newContent.trim();
+    if ((!trimmedContent && !message.attachments?.length) || isLoading) return;
+
+    const index = activePath.findIndex(m => m.id === message.id);
+    const editedMessage: Message = {
+      ...message,
+      id: Date.now().toString(),
+      content: trimmedContent,
+      timestamp: new Date().toISOString(),
+      parentId: getParentId(session, message),
+    };
+    await generateReply(editedMessage, activePath.slice(0, index), message.mode ?? 'text', [editedMessage]);
+  };
+
+  // Regenerating adds another reply to the same user message.
+  const handleRegenerate = async (message: Message) => {
+    if (isLoading) return;
+    const index = activePath.findIndex(m => m.id === message.id);
+    const userMessage = activePath[index - 1];
+    if (!userMessage || userMessage.role !== 'user') return;
+
+    await generateReply(userMessage, activePath.slice(0, index - 1), message.mode ?? userMessage.mode ?? 'text', [], { imageParams: message.imageParams, imageBaseId: message.editOf ?? null });
+  };
+
+  // The image options bar as request params, with a copy of the chosen style preset.
+  const getImageParams = (): ImageParams => {
+    const style = imageStylePresets.find(p => p.id === imageOptions.styleId);
+    return { aspectRatio: imageOptions.aspectRatio, count: imageOptions.count, ...(style ? { style } : {}) };
+  };
+
+  const handleCreateStylePreset = () => {
+    const name = window.prompt('Name for the new style:')?.trim();
+    if (!name) return;
+    const prompt = window.prompt('Describe the style, e.g. "watercolor, soft pastel palette":')?.trim();
+    if (!prompt) return;
+    const preset = createStylePreset(name, prompt);
+    onCreateStylePreset(preset);
+    setImageOptions(o => ({ ...o, styleId: preset.id }));
+  };
+
+  // Continues an image from an earlier version: on this branch it becomes the next edit's base;
+  // `branch` also moves to a new branch right after it, keeping the later edits on the old one.
+  const handleEditImageFrom = (message: Message, branch: boolean) => {
+    if (branch) updateSession(session.id, { activeLeafId: message.id });
+    setImageEditBaseId(message.id);
+    setMode('image');
+    textareaRef.current?.focus();
+  };
+
+  // Puts a reply's params back into the options bar so the next prompt is generated the same way.
+  const handleReuseImageParams = (params: ImageParams) => {
+    const style = params.style && (imageStylePresets.find(p => p.id === params.style!.id) ?? params.style);
+    if (style && !imageStylePresets.some(p => p.id === style.id)) onCreateStylePreset(style);
+    setImageOptions({ aspectRatio: params.aspectRatio, count: params.count, styleId: style?.id ?? null });
+    setMode('image');
+  };
+
+  // Rewrites only the selected slides and splices them back into the message's deck.
+  const handleEditSlides = async (message: Message, start: number, end: number, instruction: string, signal: AbortSignal) => {
+    if (!message.deck) return;
+    const slides = await editSlides(message.deck, start, end, instruction, { providerId: provider.id, signal, persona: session.persona, modelSettings: session.modelSettings });
+    if (signal.aborted) return;
+    const range = end > start ? `slides ${start + 1}–${end + 1}` : `slide ${start + 1}`;
+    commitDeckVersion(message, replaceSlides(message.deck, start, end, slides), `Edited ${range}: ${instruction}`);
+  };
+
+  // Makes `deck` the message's current deck as the deck's next version; the one it replaces goes to its history.
+  const commitDeckVersion = (message: Message, deck: Deck, note: string) => {
+    if (!message.deck) return;
+    const deckId = getDeckId(message);
+    const replaced = { ...message.deck, id: deckId, version: getDeckVersion(message.deck) };
+    const next: Deck = { ...deck, id: deckId, version: nextDeckVersion(session.messages, deckId), note, createdAt: new Date().toISOString() };
+    updateMessageInSession(session.id, message.id, {
+        deck: next,
+        deckHistory: [...(message.deckHistory ?? []), replaced],
+        content: deckToOutline(next),
+    });
+  };
+
+  // Restoring copies an earlier version into the deck's latest message on this branch, so further edits build on it.
+  const handleRestoreDeckVersion = (deckId: string, version: number) => {
+    const restored = listDeckVersions(session.messages, deckId).find(d => getDeckVersion(d) === version);
+    const holder = [...activePath].reverse().find(m => m.deck && getDeckId(m) === deckId)
+        ?? session.messages.find(m => m.deck && getDeckId(m) === deckId);
+    if (!restored || !holder) return;
+    commitDeckVersion(holder, restored, `Restored version ${version}`);
+    setComparing(null);
+  };
+
+  // Restyles the message's deck without touching its content; `kit` undefined means the default look.
+  const handleApplyBrandKit = (message: Message, kit: BrandKit | undefined) => {
+    if (!message.deck) return;
+    commitDeckVersion(message, { ...message.deck, theme: kit }, `Applied brand kit “${kit?.name ?? 'PKP.ai default'}”`);
+  };
+
+  // The version edits build on: the current deck of the deck's latest message on this branch.
+  const getCurrentDeckVersion = (deckId: string) => {
+    const holder = [...activePath].reverse().find(m => m.deck && getDeckId(m) === deckId);
+    return holder?.deck ? getDeckVersion(holder.deck) : 0;
+  };
+
+  const latestImage = findLatestImage(activePath);
+  const hasImageAttachment = attachments.some(a => getAttachmentKind(a) === 'image');
+  const imageEditBase = mode !== 'image' || hasImageAttachment ? undefined
+    : imageEditBaseId === undefined ? latestImage
+    : session.messages.find(m => m.id === imageEditBaseId);
+
+  const presentedMessage = presented ? session.messages.find(m => m.id === presented.messageId) : undefined;
+  const presentedDeck = presentedMessage?.deck && presented?.version !== undefined
+    ? listDeckVersions(session.messages, getDeckId(presentedMessage)).find(d => getDeckVersion(d) === presented.version)
+    : presentedMessage?.deck;
+  // Only the message's current deck is edited in place.
+  const isPresentingCurrentDeck = Boolean(presentedDeck) && presentedDeck === presentedMessage?.deck;
+
+  const handleSwitchBranch = (message: Message, direction: -1 | 1) => {
+    const siblings = getSiblings(session, message);
+    const target = siblings[siblings.findIndex(m => m.id === message.id) + direction];
+    if (target) {
+        updateSession(session.id, { activeLeafId: getLeafForBranch(session, target.id) });
     }
   };
 
@@ -289,23 +560,136 @@ const ChatView: React.FC<ChatViewProps> = ({ session, updateSession, streamToSes
   };
 
   const placeholderText = {
-      text: 'Ask PKP.ai anything, or upload an image...',
+      text: 'Ask PKP.ai anything, or attach files...',
       image: 'Describe an image to generate or edit...',
       presentation: 'Enter presentation topic to generate slides...'
   }
   
   return (
-    <div className="relative flex flex-col h-full bg-gray-900/50 overflow-hidden">
+    <div className="relative flex flex-col h-full bg-gray-900/50 overflow-hidden" onDragOver={handleDragOver} onDragLeave={handleDragLeave} onDrop={handleDrop}>
+        {isDraggingFiles && (
+            <div className="absolute inset-4 z-40 rounded-2xl border-2 border-dashed border-indigo-400 bg-gray-900/80 backdrop-blur-sm flex items-center justify-center pointer-events-none">
+                <p className="text-lg text-indigo-200">Drop files to attach them</p>
+            </div>
+        )}
         {/* Presentation Overlay */}
-        {presentationHtml && (
+        {presentedMessage && (
             <PresentationView 
-                htmlContent={presentationHtml} 
-                onExit={() => setPresentationHtml(null)} 
+                deck={presentedDeck}
+                htmlContent={presentedMessage.deck ? undefined : cleanHtmlContent(presentedMessage.content)} 
+                onEditSlides={isPresentingCurrentDeck ? (start, end, instruction, signal) => handleEditSlides(presentedMessage, start, end, instruction, signal) : undefined}
+                onExit={() => setPresented(null)} 
+            />
+        )}
+
+        {comparing && (
+            <DeckCompareView
+                versions={listDeckVersions(session.messages, comparing.deckId)}
+                before={comparing.before}
+                after={comparing.after}
+                currentVersion={getCurrentDeckVersion(comparing.deckId)}
+                onRestore={(version) => handleRestoreDeckVersion(comparing.deckId, version)}
+                onClose={() => setComparing(null)}
+            />
+        )}
+
+        {editingPersona && (
+            <PersonaDialog
+                persona={editingPersona}
+                onSave={(persona) => { updateSession(session.id, { persona }); setEditingPersona(null); }}
+                onClose={() => setEditingPersona(null)}
             />
         )}
 
         {/* Header */}
-        <header className={`absolute top-0 right-0 p-4 z-20 transition-opacity duration-500 ${isInitialView ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}>
+        <header className={`absolute top-0 right-0 p-4 z-20 flex items-start gap-2 transition-opacity duration-500 ${isInitialView ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}>
+            <div className="relative" ref={personaDropdownRef}>
+                <button onClick={() => setIsPersonaDropdownOpen(o => !o)} className="flex items-center gap-1.5 px-3 py-1.5 text-xs sm:text-sm rounded-lg bg-gray-900/50 hover:bg-gray-800/80 backdrop-blur-sm border border-gray-700/50 transition-colors shadow-lg" title="Persona for this chat">
+                    <span>{session.persona?.icon ?? '💬'}</span>
+                    <span className="max-w-[8rem] truncate">{session.persona?.name ?? 'No persona'}</span>
+                    <ChevronDownIcon className={`w-4 h-4 transition-transform ${isPersonaDropdownOpen ? 'rotate-180' : ''}`} />
+                </button>
+                {isPersonaDropdownOpen && (
+                    <div className="absolute top-full mt-2 right-0 w-56 bg-gray-900/80 backdrop-blur-md border border-gray-700 rounded-lg shadow-2xl overflow-hidden animate-fade-in-up z-10">
+                        {[undefined, ...personas].map(persona => (
+                            <button
+                                key={persona?.id ?? 'none'}
+                                onClick={() => handleSelectPersona(persona)}
+                                className={`w-full flex items-center gap-3 px-4 py-2.5 text-sm text-left hover:bg-indigo-500/30 transition-colors ${persona?.id === session.persona?.id ? 'text-indigo-300' : ''}`}
+                            >
+                                <span className="w-5 text-center flex-shrink-0">{persona?.icon ?? '💬'}</span>
+                                <span className="truncate">{persona?.name ?? 'No persona'}</span>
+                            </button>
+                        ))}
+                        <button onClick={handleEditChatInstructions} className="w-full px-4 py-2.5 text-sm text-left text-gray-300 hover:bg-gray-800 border-t border-gray-700 transition-colors">
+                            {session.persona ? 'Edit for this chat…' : 'Instructions for this chat…'}
+                        </button>
+                        <button onClick={() => { setIsPersonaDropdownOpen(false); onManagePersonas(); }} className="w-full px-4 py-2.5 text-sm text-left text-gray-400 hover:bg-gray-800 transition-colors">
+                            Manage personas…
+                        </button>
+                    </div>
+                )}
+            </div>
+            <div className="relative" ref={providerDropdownRef}>
+                <button onClick={() => setIsProviderDropdownOpen(o => !o)} className="flex items-center gap-1.5 px-3 py-1.5 text-xs sm:text-sm rounded-lg bg-gray-900/50 hover:bg-gray-800/80 backdrop-blur-sm border border-gray-700/50 transition-colors shadow-lg">
+                    <AiIcon className="w-4 h-4 text-indigo-400" />
+                    <span className="max-w-[10rem] truncate">{provider.label}</span>
+                    <ChevronDownIcon className={`w-4 h-4 transition-transform ${isProviderDropdownOpen ? 'rotate-180' : ''}`} />
+                </button>
+                {isProviderDropdownOpen && (
+                     <div className="absolute top-full mt-2 right-0 w-56 bg-gray-900/80 backdrop-blur-md border border-gray-700 rounded-lg shadow-2xl overflow-hidden animate-fade-in-up z-10">
+                         {listProviders().map(p => (
+                             <button
+                                 key={p.id}
+                                 onClick={() => handleSelectProvider(p.id)}
+                                 disabled={!p.isConfigured()}
+                                 className={`w-full flex items-center justify-between gap-3 px-4 py-2.5 text-sm text-left hover:bg-indigo-500/30 transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${p.id === provider.id ? 'text-indigo-300' : ''}`}
+                             >
+                                 <span className="truncate">{p.label}</span>
+                                 {!p.isConfigured() && <span className="text-xs text-gray-500">Not configured</span>}
+                             </button>
+                         ))}
+                     </div>
+                )}
+            </div>
+            {mode === 'presentation' && (
+                <div className="relative" ref={brandDropdownRef}>
+                    <button onClick={() => setIsBrandDropdownOpen(o => !o)} className="flex items-center gap-1.5 px-3 py-1.5 text-xs sm:text-sm rounded-lg bg-gray-900/50 hover:bg-gray-800/80 backdrop-blur-sm border border-gray-700/50 transition-colors shadow-lg" title="Brand kit for new decks">
+                        <span className="w-3 h-3 rounded-full border border-white/30" style={{ background: brandKit?.colors.accent ?? '#818cf8' }} />
+                        <span className="max-w-[8rem] truncate">{brandKit?.name ?? 'Default theme'}</span>
+                        <ChevronDownIcon className={`w-4 h-4 transition-transform ${isBrandDropdownOpen ? 'rotate-180' : ''}`} />
+                    </button>
+                    {isBrandDropdownOpen && (
+                        <div className="absolute top-full mt-2 right-0 w-56 bg-gray-900/80 backdrop-blur-md border border-gray-700 rounded-lg shadow-2xl overflow-hidden animate-fade-in-up z-10">
+                            {[undefined, ...brandKits].map(kit => (
+                                <button
+                                    key={kit?.id ?? 'default'}
+                                    onClick={() => { updateSession(session.id, { brandKitId: kit?.id ?? null }); setIsBrandDropdownOpen(false); }}
+                                    className={`w-full flex items-center gap-3 px-4 py-2.5 text-sm text-left hover:bg-green-500/30 transition-colors ${kit?.id === brandKit?.id ? 'text-green-300' : ''}`}
+                                >
+                                    <span className="w-3 h-3 flex-shrink-0 rounded-full border border-white/30" style={{ background: kit?.colors.accent ?? '#818cf8' }} />
+                                    <span className="truncate">{kit?.name ?? 'Default theme'}</span>
+                                </button>
+                            ))}
+                            <button onClick={() => { setIsBrandDropdownOpen(false); onManageBrandKits(); }} className="w-full px-4 py-2.5 text-sm text-left text-gray-400 hover:bg-gray-800 border-t border-gray-700 transition-colors">
+                                Manage brand kits…
+                            </button>
+                        </div>
+                    )}
+                </div>
+            )}
+            <div className="relative" ref={modelPanelRef}>
+                <button onClick={() => setIsModelPanelOpen(o => !o)} className="flex items-center gap-1.5 px-3 py-1.5 text-xs sm:text-sm rounded-lg bg-gray-900/50 hover:bg-gray-800/80 backdrop-blur-sm border border-gray-700/50 transition-colors shadow-lg" title="Model and generation settings for this chat">
+                    <span className="max-w-[9rem] truncate">{resolveModel(provider, mode === 'image' ? 'image' : 'text', mode === 'image' ? session.modelSettings?.imageModel : session.modelSettings?.textModel) || 'Model'}</span>
+                    {describeGenerationConfig(getGenerationConfig(session.modelSettings)) && <span className="w-1.5 h-1.5 rounded-full bg-indigo-400" title="Custom generation settings" />}
+                    <ChevronDownIcon className={`w-4 h-4 transition-transform ${isModelPanelOpen ? 'rotate-180' : ''}`} />
+                </button>
+                {isModelPanelOpen && (
+                    <div className="absolute top-full mt-2 right-0 w-72 bg-gray-900/90 backdrop-blur-md border border-gray-700 rounded-lg shadow-2xl animate-fade-in-up z-10">
+                        <ModelSettingsPanel provider={provider} settings={session.modelSettings ?? {}} onChange={(modelSettings) => updateSession(session.id, { modelSettings })} />
+                    </div>
+                )}
+            </div>
             <div className="relative" ref={dropdownRef}>
                 <button onClick={() => setIsDropdownOpen(o => !o)} className="flex items-center gap-1.5 px-3 py-1.5 text-xs sm:text-sm rounded-lg bg-gray-900/50 hover:bg-gray-800/80 backdrop-blur-sm border border-gray-700/50 transition-colors shadow-lg">
                     {mode === 'text' && <TextIcon className="w-4 h-4 text-indigo-400" />}
@@ -332,15 +716,41 @@ const ChatView: React.FC<ChatViewProps> = ({ session, updateSession, streamToSes
 
       <div className={`flex-grow p-4 md:p-6 overflow-y-auto transition-opacity duration-500 ${isInitialView ? 'opacity-0' : 'opacity-100'}`}>
         <div className="max-w-3xl mx-auto space-y-6 pb-24">
-          {session.messages.map((msg) => (
-            <MessageItem 
-                key={msg.id} 
-                message={msg} 
-                isLoading={msg.status === 'in-progress'} 
-                onPresent={setPresentationHtml}
-                onSendEdit={(editPrompt) => handleSendMessage(editPrompt, 'presentation')}
-            />
-          ))}
+          {activePath.map((msg) => {
+            const siblings = getSiblings(session, msg);
+            const deckId = msg.deck ? getDeckId(msg) : undefined;
+            const imageChain = isImageReply(msg) ? getImageChain(session.messages, msg) : [];
+            return (
+              <MessageItem 
+                  key={msg.id} 
+                  message={msg} 
+                  isLoading={msg.status === 'in-progress'} 
+                  isBusy={isLoading}
+                  isHighlighted={msg.id === highlightedMessageId}
+                  deckVersions={deckId ? listDeckVersions(session.messages, deckId) : []}
+                  currentDeckVersion={deckId ? getCurrentDeckVersion(deckId) : 0}
+                  onStop={handleCancelGeneration}
+                  onPresent={(version) => setPresented({ messageId: msg.id, version })}
+                  onCompareVersions={(before, after) => deckId && setComparing({ deckId, before, after })}
+                  onRestoreVersion={(version) => deckId && handleRestoreDeckVersion(deckId, version)}
+                  brandKits={brandKits}
+                  onApplyBrandKit={(kit) => handleApplyBrandKit(msg, kit)}
+                  onSelectImage={(image) => updateMessageInSession(session.id, msg.id, { content: image })}
+                  onReuseImageParams={handleReuseImageParams}
+                  imageChain={imageChain}
+                  isImageEditBase={msg.id === imageEditBase?.id}
+                  canBranchFromImage={msg.id !== activePath[activePath.length - 1].id}
+                  onEditImageFrom={handleEditImageFrom}
+                  onSendEdit={(editPrompt) => handleSendMessage(editPrompt, 'presentation', deckId)}
+                  onEditMessage={(content) => handleEditMessage(msg, content)}
+                  onRegenerate={() => handleRegenerate(msg)}
+                  branchIndex={siblings.findIndex(m => m.id === msg.id)}
+                  branchCount={siblings.length}
+                  onSwitchBranch={(direction) => handleSwitchBranch(msg, direction)}
+                  onTogglePin={() => updateMessageInSession(session.id, msg.id, { pinned: !msg.pinned })}
+              />
+            );
+          })}
           <div ref={messagesEndRef} />
         </div>
       </div>
@@ -358,25 +768,77 @@ const ChatView: React.FC<ChatViewProps> = ({ session, updateSession, streamToSes
                   </div>
                   <h2 className="text-4xl font-bold tracking-tight">PKP.ai</h2>
                </div>
-              <p className="text-gray-400 text-lg">How can I help you?</p>
+              <p className="text-gray-400 text-lg">{session.persona ? `${session.persona.icon} ${session.persona.name} is ready.` : 'How can I help you?'}</p>
+              <button onClick={handleEditChatInstructions} className="mt-2 text-sm text-indigo-300 hover:text-indigo-200 underline-offset-2 hover:underline">
+                  {session.persona ? 'Edit instructions for this chat' : 'Add instructions for this chat'}
+              </button>
           </div>
           
-          {attachment && (
-              <div className="mb-2 p-2 bg-gray-800/80 backdrop-blur-sm rounded-lg flex items-center justify-between animate-fade-in-up">
-                  <div className="flex items-center gap-2 overflow-hidden">
-                      <img src={`data:${attachment.mimeType};base64,${attachment.data}`} alt="Attachment preview" className="w-10 h-10 rounded object-cover flex-shrink-0" />
-                      <span className="text-sm text-gray-300 truncate">{attachment.name}</span>
+          {autoRouted && !isInitialView && (
+              <div className="mb-2 p-2 bg-gray-800/80 backdrop-blur-sm rounded-lg flex items-center justify-between gap-2 animate-fade-in-up">
+                  <span className="text-sm text-gray-300 truncate">
+                      Switched to {INTENT_LABELS[autoRouted.intent]} <span className="text-gray-500">for this message</span>
+                  </span>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                      <button onClick={handleUndoAutoRoute} className="px-2 py-1 text-xs text-gray-300 hover:text-white rounded hover:bg-gray-700" title="Answer this message as a chat reply instead">
+                          Undo
+                      </button>
+                      <button onClick={onManageRouting} className="px-2 py-1 text-xs text-gray-500 hover:text-white rounded hover:bg-gray-700">
+                          Settings
+                      </button>
+                      <button onClick={() => setAutoRouted(null)} className="p-1 text-gray-400 hover:text-white rounded-full" aria-label="Dismiss">
+                          <XCircleIcon className="w-4 h-4" />
+                      </button>
                   </div>
-                  <button onClick={() => setAttachment(null)} className="p-1 text-gray-400 hover:text-white rounded-full">
-                      <XCircleIcon className="w-5 h-5" />
-                  </button>
+              </div>
+          )}
+
+          {mode === 'image' && !isInitialView && (
+              <ImageOptionsBar
+                  options={imageOptions}
+                  onChange={setImageOptions}
+                  stylePresets={imageStylePresets}
+                  onCreateStylePreset={handleCreateStylePreset}
+                  onManageStylePresets={onManageStylePresets}
+                  disabled={isLoading}
+              />
+          )}
+
+          {mode === 'image' && !hasImageAttachment && !isInitialView && (imageEditBase || latestImage) && (
+              <div className="mb-2 p-2 bg-gray-800/80 backdrop-blur-sm rounded-lg flex items-center justify-between gap-2 animate-fade-in-up">
+                  {imageEditBase ? (
+                      <>
+                          <div className="flex items-center gap-2 overflow-hidden">
+                              <img src={imageEditBase.content} alt="Image being edited" className="w-10 h-10 rounded object-cover flex-shrink-0" />
+                              <span className="text-sm text-gray-300 truncate">Editing version {getImageChain(session.messages, imageEditBase).length}</span>
+                          </div>
+                          <button onClick={() => setImageEditBaseId(null)} className="px-2 py-1 text-xs text-gray-300 hover:text-white rounded hover:bg-gray-700 flex-shrink-0">
+                              Start a new image
+                          </button>
+                      </>
+                  ) : (
+                      <>
+                          <span className="text-sm text-gray-300">New image</span>
+                          <button onClick={() => setImageEditBaseId(undefined)} className="px-2 py-1 text-xs text-gray-300 hover:text-white rounded hover:bg-gray-700">
+                              Edit the latest image instead
+                          </button>
+                      </>
+                  )}
+              </div>
+          )}
+
+          {attachments.length > 0 && (
+              <div className="mb-2 p-2 bg-gray-800/80 backdrop-blur-sm rounded-lg flex flex-wrap gap-2 animate-fade-in-up">
+                  {attachments.map((a, i) => (
+                      <AttachmentChip key={i} attachment={a} onRemove={() => setAttachments(prev => prev.filter((_, j) => j !== i))} />
+                  ))}
               </div>
           )}
 
           <div className="relative p-px rounded-2xl animated-gradient-border" style={{boxShadow: '0 0 25px rgba(129, 140, 248, 0.4), 0 0 40px rgba(79, 70, 229, 0.3)'}}>
             <div className="relative flex items-center bg-gray-900 rounded-2xl">
-              <input type="file" ref={fileInputRef} onChange={handleFileSelect} accept="image/*" className="hidden" />
-              <button onClick={() => fileInputRef.current?.click()} className="p-2 m-2 text-gray-400 hover:text-white transition-colors rounded-full hover:bg-gray-700/50" aria-label="Attach file">
+              <input type="file" ref={fileInputRef} onChange={handleFileSelect} accept={ATTACHMENT_ACCEPT} multiple className="hidden" />
+              <button onClick={() => fileInputRef.current?.click()} disabled={isLoading} className="p-2 m-2 text-gray-400 hover:text-white transition-colors rounded-full hover:bg-gray-700/50" aria-label="Attach files">
                 <PaperclipIcon className="w-5 h-5" />
               </button>
               <textarea
@@ -388,6 +850,7 @@ const ChatView: React.FC<ChatViewProps> = ({ session, updateSession, streamToSes
                     setInput(e.target.value)
                 }}
                 onKeyDown={handleKeyDown}
+                onPaste={handlePaste}
                 placeholder={placeholderText[mode]}
                 className="w-full bg-transparent text-white rounded-2xl p-2 pr-12 resize-none focus:outline-none disabled:opacity-75"
                 rows={1}
@@ -400,8 +863,8 @@ const ChatView: React.FC<ChatViewProps> = ({ session, updateSession, streamToSes
                 disabled={isLoading}
               />
               <button
-                onClick={() => isLoading ? handleCancelGeneration : handleSendMessage()}
-                disabled={!isLoading && (!input.trim() && !attachment)}
+                onClick={() => isLoading ? handleCancelGeneration() : handleSendMessage()}
+                disabled={!isLoading && (!input.trim() && !attachments.length)}
                 className="group absolute right-3 top-1/2 -translate-y-1/2 p-2 w-9 h-9 flex items-center justify-center rounded-full text-white bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-all shadow-[0_0_10px_rgba(129,140,248,0.5)] hover:shadow-[0_0_15px_rgba(129,140,248,0.8)]"
               >
                 {isLoading ? (
@@ -429,32 +892,106 @@ const ChatView: React.FC<ChatViewProps> = ({ session, updateSession, streamToSes
 };
 
 
-const MessageItem: React.FC<{ message: Message; isLoading: boolean; onPresent: (html: string) => void; onSendEdit: (prompt: string) => void }> = ({ message, isLoading, onPresent, onSendEdit }) => {
+interface MessageItemProps {
+    message: Message;
+    isLoading: boolean;
+    // True while any reply in the session is generating; branch actions are disabled meanwhile.
+    isBusy: boolean;
+    isHighlighted: boolean;
+    // Every version of this message's deck, oldest first, and the one edits currently build on.
+    deckVersions: Deck[];
+    currentDeckVersion: number;
+    // Cancels the reply that is generating.
+    onStop: () => void;
+    onPresent: (version?: number) => void;
+    onCompareVersions: (before: number, after: number) => void;
+    onRestoreVersion: (version: number) => void;
+    brandKits: BrandKit[];
+    onApplyBrandKit: (kit: BrandKit | undefined) => void;
+    // Makes one of an image reply's variations the selected one.
+    onSelectImage: (image: string) => void;
+    onReuseImageParams: (params: ImageParams) => void;
+    // Image versions this reply was edited from, oldest first and ending with it.
+    imageChain: Message[];
+    isImageEditBase: boolean;
+    canBranchFromImage: boolean;
+    onEditImageFrom: (message: Message, branch: boolean) => void;
+    onSendEdit: (prompt: string) => void;
+    onEditMessage: (content: string) => void;
+    onRegenerate: () => void;
+    branchIndex: number;
+    branchCount: number;
+    onSwitchBranch: (direction: -1 | 1) => void;
+    onTogglePin: () => void;
+}
+
+const MessageItem: React.FC<MessageItemProps> = ({ message, isLoading, isBusy, isHighlighted, deckVersions, currentDeckVersion, onStop, onPresent, onCompareVersions, onRestoreVersion, brandKits, onApplyBrandKit, onSelectImage, onReuseImageParams, imageChain, isImageEditBase, canBranchFromImage, onEditImageFrom, onSendEdit, onEditMessage, onRegenerate, branchIndex, branchCount, onSwitchBranch, onTogglePin }) => {
     const [isEditing, setIsEditing] = useState(false);
     const [editInput, setEditInput] = useState("");
+    const [isEditingMessage, setIsEditingMessage] = useState(false);
+    const [messageDraft, setMessageDraft] = useState(message.content);
+    const [exportingFormat, setExportingFormat] = useState<'pptx' | 'pdf' | null>(null);
     const isUser = message.role === 'user';
+    const isStopped = message.status === 'stopped';
     
     // Robust detection using the updated cleaner function
     const htmlContent = cleanHtmlContent(message.content);
     // Determine if we have HTML to show presentation UI. 
     // We use a safe threshold (e.g. 50 chars) to ensure it's not just a fragment.
     const hasHtml = htmlContent.length > 50;
+    // The picker shows any version of the deck; presenting and exporting follow it.
+    const ownVersion = message.deck ? getDeckVersion(message.deck) : 0;
+    const [selectedVersion, setSelectedVersion] = useState(ownVersion);
+    useEffect(() => setSelectedVersion(ownVersion), [ownVersion]);
+    const selectedDeck = deckVersions.find(d => getDeckVersion(d) === selectedVersion);
+    const deck = selectedDeck ?? message.deck;
+    const isPresentation = Boolean(deck) || hasHtml;
+    // Slides that have fully streamed in so far, so a deck heading the wrong way can be stopped early.
+    const isStreamingDeck = isLoading && !isUser && !isPresentation && message.mode === 'presentation';
+    const streamingDeck = useMemo(() => isStreamingDeck ? parsePartialDeck(message.content) : null, [isStreamingDeck, message.content]);
     
     const handlePresent = () => {
-        if (htmlContent) onPresent(htmlContent);
+        if (deck || htmlContent) onPresent(selectedDeck && selectedDeck !== message.deck ? selectedVersion : undefined);
+    };
+
+    // Compares the picked version with the current one, or the current one with the version before it.
+    const handleCompare = () => {
+        const currentIndex = deckVersions.findIndex(d => getDeckVersion(d) === currentDeckVersion);
+        const before = selectedVersion !== currentDeckVersion
+            ? selectedVersion
+            : getDeckVersion(deckVersions[Math.max(0, currentIndex - 1)]);
+        onCompareVersions(before, currentDeckVersion);
     };
 
     const handleDownload = () => {
-        if (!htmlContent) return;
-        const blob = new Blob([htmlContent], { type: 'text/html' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `presentation-${message.id}.html`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        if (deck) {
+            downloadFile(exportDeckToHtml(deck), `${toFileSlug(deck.title, 'presentation')}.html`, 'text/html');
+        } else if (htmlContent) {
+            downloadFile(sanitizePresentationHtml(htmlContent), `presentation-${message.id}.html`, 'text/html');
+        }
+    };
+
+    // PPTX and PDF need slide structure; older HTML decks are converted first.
+    const handleExportDeck = async (format: 'pptx' | 'pdf') => {
+        const source = deck ?? htmlToDeck(htmlContent);
+        if (!source) {
+            alert("No slides were found in this presentation to export.");
+            return;
+        }
+        setExportingFormat(format);
+        try {
+            const filename = `${toFileSlug(source.title, 'presentation')}.${format}`;
+            if (format === 'pptx') {
+                downloadFile(await exportDeckToPptx(source), filename, 'application/vnd.openxmlformats-officedocument.presentationml.presentation');
+            } else {
+                downloadFile(await exportDeckToPdf(source), filename, 'application/pdf');
+            }
+        } catch (error) {
+            console.error(`${format.toUpperCase()} export failed`, error);
+            alert(`The ${format.toUpperCase()} file could not be created.`);
+        } finally {
+            setExportingFormat(null);
+        }
     };
 
     const handleEditSubmit = () => {
@@ -464,8 +1001,60 @@ const MessageItem: React.FC<{ message: Message; isLoading: boolean; onPresent: (
         setEditInput("");
     };
 
-    // If still loading and we don't have HTML yet, show a loader for presentation mode
-    if (isLoading && !isUser && !hasHtml && message.mode === 'presentation') {
+    const handleMessageEditSubmit = () => {
+        if (!messageDraft.trim() || messageDraft.trim() === message.content) {
+            setIsEditingMessage(false);
+            return;
+        }
+        setIsEditingMessage(false);
+        onEditMessage(messageDraft);
+    };
+
+    const branchControls = !isLoading && (
+        <div className={`flex items-center gap-1 mt-1 text-xs text-gray-400 ${isUser ? 'justify-end' : 'ml-12'}`}>
+            {branchCount > 1 && (
+                <div className="flex items-center">
+                    <button onClick={() => onSwitchBranch(-1)} disabled={isBusy || branchIndex === 0} className="p-1 rounded hover:text-white disabled:opacity-30 disabled:cursor-not-allowed" aria-label="Previous version">
+                        <ChevronLeftIcon className="w-3.5 h-3.5" />
+                    </button>
+                    <span className="tabular-nums">{branchIndex + 1}/{branchCount}</span>
+                    <button onClick={() => onSwitchBranch(1)} disabled={isBusy || branchIndex === branchCount - 1} className="p-1 rounded hover:text-white disabled:opacity-30 disabled:cursor-not-allowed" aria-label="Next version">
+                        <ChevronRightIcon className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+            )}
+            {!isBusy && isUser && !isEditingMessage && (
+                <button onClick={() => { setMessageDraft(message.content); setIsEditingMessage(true); }} className="p-1 rounded hover:text-white" aria-label="Edit message">
+                    <EditIcon className="w-3.5 h-3.5" />
+                </button>
+            )}
+            {!isBusy && !isUser && (
+                <button onClick={onRegenerate} className="p-1 rounded hover:text-white" aria-label="Regenerate reply">
+                    <RefreshIcon className="w-3.5 h-3.5" />
+                </button>
+            )}
+            <button
+                onClick={onTogglePin}
+                className={`p-1 rounded hover:text-white ${message.pinned ? 'text-amber-400' : ''}`}
+                aria-label={message.pinned ? 'Unpin message' : 'Pin message'}
+                title={message.pinned ? 'Pinned: always kept in the model context' : 'Pin to always keep in the model context'}
+            >
+                <PinIcon className="w-3.5 h-3.5" />
+            </button>
+            {!isUser && message.generatedWith && (
+                <span
+                    className="ml-1 truncate max-w-[14rem]"
+                    title={[message.generatedWith.model, describeGenerationConfig(message.generatedWith.config) || 'default settings'].join(' · ')}
+                >
+                    {message.generatedWith.model}
+                </span>
+            )}
+        </div>
+    );
+
+    // While a deck streams, show each slide as soon as it is complete.
+    if (isStreamingDeck && streamingDeck) {
+        const streamedSlides = streamingDeck.slides;
         return (
             <div className="flex items-start gap-4">
                 <div className="w-8 h-8 flex-shrink-0 rounded-full bg-indigo-600 flex items-center justify-center shadow-[0_0_15px_rgba(129,140,248,0.6)]">
@@ -475,12 +1064,38 @@ const MessageItem: React.FC<{ message: Message; isLoading: boolean; onPresent: (
                     <div className="flex flex-col gap-3">
                         <div className="flex items-center gap-2">
                              <SpinnerIcon className="w-4 h-4 text-indigo-400" />
-                             <span className="text-white/80 text-sm font-medium">Generating slides...</span>
-                        </div>
-                        <div className="space-y-2">
-                            <div className="h-2 w-3/4 bg-gray-700 rounded animate-pulse"></div>
-                            <div className="h-2 w-1/2 bg-gray-700 rounded animate-pulse"></div>
+                             <span className="text-white/80 text-sm font-medium truncate">
+                                {streamingDeck.title ? `Generating “${streamingDeck.title}”` : 'Generating slides...'}
+                                {streamedSlides.length > 0 && ` — ${streamedSlides.length} ${streamedSlides.length === 1 ? 'slide' : 'slides'} so far`}
+                             </span>
                         </div>
+                        {streamedSlides.length ? (
+                            <>
+                                <SlideStyles />
+                                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                                    {streamedSlides.map((slide, i) => (
+                                        // Slide ids are regenerated on every parse, so position is the stable key.
+                                        <div key={i} className="rounded overflow-hidden border border-gray-700 animate-fade-in-up">
+                                            <SlideRenderer slide={slide} index={i} total={streamedSlides.length} />
+                                        </div>
+                                    ))}
+                                    <div className="aspect-video rounded border border-dashed border-gray-700 flex items-center justify-center">
+                                        <SpinnerIcon className="w-5 h-5 text-gray-500" />
+                                    </div>
+                                </div>
+                                <div className="flex items-center justify-between gap-3">
+                                    <span className="text-xs text-gray-400">Not what you wanted? Stop now and rephrase.</span>
+                                    <button onClick={onStop} className="px-3 py-1.5 text-xs font-medium rounded bg-gray-700 hover:bg-gray-600 text-white">
+                                        Stop generating
+                                    </button>
+                                </div>
+                            </>
+                        ) : (
+                            <div className="space-y-2">
+                                <div className="h-2 w-3/4 bg-gray-700 rounded animate-pulse"></div>
+                                <div className="h-2 w-1/2 bg-gray-700 rounded animate-pulse"></div>
+                            </div>
+                        )}
                     </div>
                 </div>
             </div>
@@ -488,128 +1103,305 @@ const MessageItem: React.FC<{ message: Message; isLoading: boolean; onPresent: (
     }
 
     return (
-        <div className={`flex items-start gap-4 ${isUser ? 'justify-end' : ''}`}>
-            {!isUser && (
-                <div className="w-8 h-8 flex-shrink-0 rounded-full bg-indigo-600 flex items-center justify-center shadow-[0_0_15px_rgba(129,140,248,0.6)]">
-                    <AiIcon />
-                </div>
-            )}
-            <div className={`p-4 rounded-lg max-w-[90%] md:max-w-[80%] ${isUser ? 'bg-blue-600 shadow-[0_0_15px_rgba(37,99,235,0.5)] text-white' : 'bg-gray-800 shadow-[0_0_15px_rgba(55,65,81,0.5)]'}`}>
-                
-                {hasHtml ? (
-                    <div>
-                        <div className="flex items-center gap-2 mb-2">
-                            <PresentationIcon className="w-5 h-5 text-green-400" />
-                            <h3 className="text-lg font-semibold text-white">Presentation Ready</h3>
-                        </div>
-                        <p className="text-gray-300 text-sm mb-4">
-                           {isLoading ? "Finalizing slides..." : "Presentation created. You can view, download, or edit it below."}
-                        </p>
-                        
-                        <div className="flex flex-wrap items-center gap-2 relative z-10">
-                            <button 
-                                onClick={handlePresent} 
-                                className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg transition-all shadow-lg bg-green-600 hover:bg-green-700 hover:shadow-green-500/50 text-white cursor-pointer`}
-                            >
-                                <PresentationIcon className="w-4 h-4" />
-                                Present
-                            </button>
-                            <button 
-                                onClick={handleDownload} 
-                                className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg transition-all shadow-lg bg-indigo-600 hover:bg-indigo-500 hover:shadow-indigo-500/50 text-white cursor-pointer`}
-                            >
-                                <DownloadIcon className="w-4 h-4" />
-                                Download
-                            </button>
-                             <button 
-                                onClick={() => setIsEditing(!isEditing)} 
-                                className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg bg-gray-700 hover:bg-gray-600 text-white transition-all shadow-lg border border-gray-600 cursor-pointer"
-                            >
-                                <EditIcon className="w-4 h-4" />
-                                {isEditing ? "Close Edit" : "Edit"}
-                            </button>
+        <div id={`message-${message.id}`} className={`rounded-xl transition-shadow duration-500 ${isHighlighted ? 'ring-2 ring-indigo-400/80 ring-offset-4 ring-offset-gray-900' : ''}`}>
+            <div className={`flex items-start gap-4 ${isUser ? 'justify-end' : ''}`}>
+                {!isUser && (
+                    <div className="w-8 h-8 flex-shrink-0 rounded-full bg-indigo-600 flex items-center justify-center shadow-[0_0_15px_rgba(129,140,248,0.6)]">
+                        <AiIcon />
+                    </div>
+                )}
+                <div className={`p-4 rounded-lg max-w-[90%] md:max-w-[80%] ${isUser ? 'bg-blue-600 shadow-[0_0_15px_rgba(37,99,235,0.5)] text-white' : 'bg-gray-800 shadow-[0_0_15px_rgba(55,65,81,0.5)]'}`}>
+                    
+                    {isPresentation ? (
+                        <div>
+                            <div className="flex items-center gap-2 mb-2">
+                                <PresentationIcon className="w-5 h-5 text-green-400" />
+                                <h3 className="text-lg font-semibold text-white">{deck ? deck.title : "Presentation Ready"}</h3>
+                            </div>
+                            <p className="text-gray-300 text-sm mb-4">
+                               {isLoading ? "Finalizing slides..." : isStopped ? "Generation was stopped, so some slides may be missing." : deck ? `${deck.slides.length} slides. You can view, download, or edit them below.` : "Presentation created. You can view, download, or edit it below."}
+                            </p>
+                            {deck && deckVersions.length > 1 && (
+                                <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+                                    <select
+                                        value={selectedVersion}
+                                        onChange={(e) => setSelectedVersion(Number(e.target.value))}
+                                        aria-label="Deck version"
+                                        className="max-w-[16rem] bg-gray-900 border border-gray-700 rounded px-2 py-1 text-gray-200 focus:outline-none focus:border-indigo-500"
+                                    >
+                                        {deckVersions.map(d => {
+                                            const version = getDeckVersion(d);
+                                            return (
+                                                <option key={version} value={version}>
+                                                    {`Version ${version} of ${deckVersions.length}`}{version === currentDeckVersion ? ' (current)' : ''}{d.note ? ` — ${d.note}` : ''}
+                                                </option>
+                                            );
+                                        })}
+                                    </select>
+                                    <button
+                                        onClick={handleCompare}
+                                        className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-200"
+                                    >
+                                        Compare
+                                    </button>
+                                    {selectedVersion !== currentDeckVersion && (
+                                        <button
+                                            onClick={() => onRestoreVersion(selectedVersion)}
+                                            disabled={isBusy}
+                                            className="px-2 py-1 rounded bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50"
+                                            title="Make this version the current one for further edits"
+                                        >
+                                            Restore
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+                            {deck && (
+                                <button onClick={handlePresent} className="block w-full max-w-sm mb-4 rounded-lg overflow-hidden border border-gray-700 hover:border-green-500 transition-colors" aria-label="Present from the first slide">
+                                    <SlideStyles />
+                                    <SlideRenderer slide={deck.slides[0]} index={0} total={deck.slides.length} theme={deck.theme} />
+                                </button>
+                            )}
+                            
+                            <div className="flex flex-wrap items-center gap-2 relative z-10">
+                                <button 
+                                    onClick={handlePresent} 
+                                    className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg transition-all shadow-lg bg-green-600 hover:bg-green-700 hover:shadow-green-500/50 text-white cursor-pointer`}
+                                >
+                                    <PresentationIcon className="w-4 h-4" />
+                                    Present
+                                </button>
+                                <button 
+                                    onClick={handleDownload} 
+                                    className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg transition-all shadow-lg bg-indigo-600 hover:bg-indigo-500 hover:shadow-indigo-500/50 text-white cursor-pointer`}
+                                >
+                                    <DownloadIcon className="w-4 h-4" />
+                                    Download
+                                </button>
+                                {(['pptx', 'pdf'] as const).map(format => (
+                                    <button 
+                                        key={format}
+                                        onClick={() => handleExportDeck(format)} 
+                                        disabled={isLoading || exportingFormat !== null}
+                                        className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg transition-all shadow-lg bg-indigo-600 hover:bg-indigo-500 hover:shadow-indigo-500/50 text-white cursor-pointer disabled:opacity-60 disabled:cursor-wait`}
+                                        title={format === 'pptx' ? 'Download as PowerPoint (.pptx)' : 'Download as PDF, one slide per page'}
+                                    >
+                                        {exportingFormat === format ? <SpinnerIcon className="w-4 h-4" /> : <DownloadIcon className="w-4 h-4" />}
+                                        {format.toUpperCase()}
+                                    </button>
+                                ))}
+                                 <button 
+                                    onClick={() => setIsEditing(!isEditing)} 
+                                    className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg bg-gray-700 hover:bg-gray-600 text-white transition-all shadow-lg border border-gray-600 cursor-pointer"
+                                >
+                                    <EditIcon className="w-4 h-4" />
+                                    {isEditing ? "Close Edit" : "Edit"}
+                                </button>
+                                {deck && (
+                                    <select
+                                        value=""
+                                        onChange={(e) => {
+                                            const value = e.target.value;
+                                            if (value) onApplyBrandKit(value === 'default' ? undefined : brandKits.find(k => k.id === value));
+                                        }}
+                                        disabled={isBusy}
+                                        aria-label="Apply brand kit"
+                                        title="Restyle this deck as a new version"
+                                        className="px-3 py-2 text-sm rounded-lg bg-gray-700 border border-gray-600 text-white focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+                                    >
+                                        <option value="">Apply brand kit…</option>
+                                        <option value="default">PKP.ai default</option>
+                                        {brandKits.map(kit => <option key={kit.id} value={kit.id}>{kit.name}</option>)}
+                                    </select>
+                                )}
+                            </div>
+                            
+                            {isEditing && (
+                                <div className="mt-4 pt-3 border-t border-gray-700 animate-fade-in-up">
+                                    <label className="block text-xs text-gray-400 mb-1">What changes would you like?</label>
+                                    <div className="flex gap-2 relative z-20">
+                                        <input 
+                                            type="text" 
+                                            autoFocus
+                                            value={editInput}
+                                            onChange={(e) => setEditInput(e.target.value)}
+                                            onClick={(e) => e.stopPropagation()}
+                                            placeholder="e.g., Add a slide about market trends..."
+                                            className="flex-1 bg-gray-900 border border-gray-600 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500 placeholder-gray-500 shadow-inner"
+                                            onKeyDown={(e) => {
+                                                e.stopPropagation();
+                                                if (e.key === 'Enter') handleEditSubmit();
+                                            }}
+                                        />
+                                        <button onClick={(e) => { e.stopPropagation(); handleEditSubmit(); }} className="bg-indigo-600 hover:bg-indigo-500 px-4 py-2 rounded text-sm font-medium transition-colors text-white shadow-lg">
+                                            Update
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
                         </div>
-                        
-                        {isEditing && (
-                            <div className="mt-4 pt-3 border-t border-gray-700 animate-fade-in-up">
-                                <label className="block text-xs text-gray-400 mb-1">What changes would you like?</label>
-                                <div className="flex gap-2 relative z-20">
-                                    <input 
-                                        type="text" 
+                    ) : (
+                        <div className="space-y-3">
+                            {message.attachments?.some(a => getAttachmentKind(a) === 'image') && (
+                                <div className="flex flex-wrap gap-2">
+                                    {message.attachments.filter(a => getAttachmentKind(a) === 'image').map((a, i) => (
+                                        <img
+                                            key={i}
+                                            src={`data:${a.mimeType};base64,${a.data}`}
+                                            alt={a.name}
+                                            className={`rounded-lg h-auto ${message.attachments!.length > 1 ? 'max-w-[10rem]' : 'max-w-xs'}`}
+                                        />
+                                    ))}
+                                </div>
+                            )}
+                            {message.attachments?.some(a => getAttachmentKind(a) !== 'image') && (
+                                <div className="flex flex-wrap gap-2">
+                                    {message.attachments.filter(a => getAttachmentKind(a) !== 'image').map((a, i) => <AttachmentChip key={i} attachment={a} />)}
+                                </div>
+                            )}
+                            {isEditingMessage ? (
+                                <div className="space-y-2 min-w-[16rem]">
+                                    <textarea
                                         autoFocus
-                                        value={editInput}
-                                        onChange={(e) => setEditInput(e.target.value)}
-                                        onClick={(e) => e.stopPropagation()}
-                                        placeholder="e.g., Add a slide about market trends..."
-                                        className="flex-1 bg-gray-900 border border-gray-600 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500 placeholder-gray-500 shadow-inner"
+                                        value={messageDraft}
+                                        onChange={(e) => setMessageDraft(e.target.value)}
                                         onKeyDown={(e) => {
-                                            e.stopPropagation();
-                                            if (e.key === 'Enter') handleEditSubmit();
+                                            if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleMessageEditSubmit(); }
+                                            if (e.key === 'Escape') setIsEditingMessage(false);
                                         }}
+                                        rows={3}
+                                        className="w-full bg-blue-700/60 text-white rounded p-2 text-sm resize-y focus:outline-none focus:ring-2 focus:ring-white/40"
                                     />
-                                    <button onClick={(e) => { e.stopPropagation(); handleEditSubmit(); }} className="bg-indigo-600 hover:bg-indigo-500 px-4 py-2 rounded text-sm font-medium transition-colors text-white shadow-lg">
-                                        Update
-                                    </button>
+                                    <div className="flex justify-end gap-2">
+                                        <button onClick={() => setIsEditingMessage(false)} className="px-3 py-1 text-xs rounded bg-blue-800/60 hover:bg-blue-800">Cancel</button>
+                                        <button onClick={handleMessageEditSubmit} className="px-3 py-1 text-xs rounded bg-white text-blue-700 font-medium hover:bg-blue-50">Save & Submit</button>
+                                    </div>
                                 </div>
-                            </div>
-                        )}
-                    </div>
-                ) : (
-                    <div className="space-y-3">
-                        {message.attachment && (
-                            <img 
-                                src={`data:${message.attachment.mimeType};base64,${message.attachment.data}`} 
-                                alt="User attachment"
-                                className="rounded-lg max-w-xs h-auto" 
-                            />
-                        )}
-                        {!hasHtml && message.type === 'text' && message.content && (
-                           <div className="prose prose-invert max-w-none text-sm leading-relaxed" dangerouslySetInnerHTML={{ __html: simpleMarkdownToHtml(message.content) }} />
-                        )}
-                        
-                        {message.type === 'image' && (
-                             <div className="relative group">
-                                <img src={message.content} alt="Generated" className="rounded-lg w-full max-w-sm" />
-                                <button onClick={() => {
-                                    const a = document.createElement('a');
-                                    a.href = message.content;
-                                    a.download = `pkp-ai-image-${message.id}.png`;
-                                    document.body.appendChild(a);
-                                    a.click();
-                                    document.body.removeChild(a);
-                                }} className="absolute top-2 right-2 p-2 bg-black/50 hover:bg-black/70 rounded-full text-white opacity-0 group-hover:opacity-100 transition-opacity">
-                                    <DownloadIcon className="w-5 h-5" />
-                                </button>
-                             </div>
-                        )}
-                        
-                         {message.type === 'error' && (
-                            <div className="text-red-400 text-sm bg-red-900/20 p-3 rounded border border-red-900/50">
-                                {message.content}
-                            </div>
-                        )}
+                            ) : isStopped && message.mode === 'presentation' ? (
+                               <p className="text-sm text-gray-300">The slide deck was not finished, so there is nothing to present.</p>
+                            ) : message.type === 'text' && message.content && (
+                               <div className="markdown-body max-w-none text-sm leading-relaxed" onClick={handleCodeCopyClick} dangerouslySetInnerHTML={{ __html: messageToHtml(message.content) }} />
+                            )}
+                            
+                            {message.type === 'image' && (
+                                 <div className="space-y-2">
+                                    <div className="relative group">
+                                        <img src={message.content} alt="Generated" className="rounded-lg w-full max-w-sm" />
+                                        <button onClick={() => {
+                                            const a = document.createElement('a');
+                                            a.href = message.content;
+                                            a.download = `pkp-ai-image-${message.id}.png`;
+                                            document.body.appendChild(a);
+                                            a.click();
+                                            document.body.removeChild(a);
+                                        }} className="absolute top-2 right-2 p-2 bg-black/50 hover:bg-black/70 rounded-full text-white opacity-0 group-hover:opacity-100 transition-opacity">
+                                            <DownloadIcon className="w-5 h-5" />
+                                        </button>
+                                    </div>
+                                    {message.images && message.images.length > 1 && (
+                                        <div className="grid grid-cols-4 gap-2 max-w-sm" role="listbox" aria-label="Variations">
+                                            {message.images.map((image, i) => (
+                                                <button
+                                                    key={i}
+                                                    onClick={() => onSelectImage(image)}
+                                                    role="option"
+                                                    aria-selected={image === message.content}
+                                                    aria-label={`Variation ${i + 1}`}
+                                                    className={`rounded overflow-hidden border-2 transition-colors ${image === message.content ? 'border-pink-400' : 'border-transparent hover:border-gray-500'}`}
+                                                >
+                                                    <img src={image} alt="" className="w-full aspect-square object-cover" />
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                    {message.imageParams && (
+                                        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                                            <span>
+                                                {`${message.imageParams.aspectRatio} ${IMAGE_ASPECT_RATIOS[message.imageParams.aspectRatio].toLowerCase()}`}
+                                                {` · ${message.imageParams.count} variation${message.imageParams.count === 1 ? '' : 's'}`}
+                                                {message.imageParams.style ? ` · ${message.imageParams.style.name}` : ''}
+                                            </span>
+                                            {!isBusy && (
+                                                <>
+                                                    <button onClick={onRegenerate} className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-200" title="Generate again with the same prompt and settings">
+                                                        Re-roll
+                                                    </button>
+                                                    <button onClick={() => onReuseImageParams(message.imageParams!)} className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-200" title="Use these settings for the next image">
+                                                        Use settings
+                                                    </button>
+                                                </>
+                                            )}
+                                        </div>
+                                    )}
+                                    {imageChain.length > 0 && (
+                                        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                                            {imageChain.length > 1 && (
+                                                <div className="flex items-center gap-1" role="list" aria-label="Edit history">
+                                                    {imageChain.map((version, i) => (
+                                                        <button
+                                                            key={version.id}
+                                                            onClick={() => version.id !== message.id && onEditImageFrom(version, false)}
+                                                            disabled={isBusy}
+                                                            role="listitem"
+                                                            title={version.id === message.id ? `Version ${i + 1} (this image)` : `Continue editing from version ${i + 1}`}
+                                                            className={`w-8 h-8 rounded overflow-hidden border-2 transition-colors ${version.id === message.id ? 'border-pink-400' : 'border-transparent hover:border-gray-500'}`}
+                                                        >
+                                                            <img src={version.content} alt={`Version ${i + 1}`} className="w-full h-full object-cover" />
+                                                        </button>
+                                                    ))}
+                                                    <span className="ml-1">Version {imageChain.length}</span>
+                                                </div>
+                                            )}
+                                            {isImageEditBase ? (
+                                                <span className="px-2 py-0.5 rounded bg-pink-500/20 text-pink-300">Next edit starts here</span>
+                                            ) : !isBusy && (
+                                                <button onClick={() => onEditImageFrom(message, false)} className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-200" title="Make the next image prompt edit this version">
+                                                    Edit from here
+                                                </button>
+                                            )}
+                                            {canBranchFromImage && !isBusy && (
+                                                <button onClick={() => onEditImageFrom(message, true)} className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-200" title="Start a new branch after this version; later edits stay on the current one">
+                                                    Branch from here
+                                                </button>
+                                            )}
+                                        </div>
+                                    )}
+                                 </div>
+                            )}
+                            
+                            {isStopped && (
+                                <p className="text-xs text-gray-400 italic">Stopped{message.content ? '' : ' before any output was generated'}.</p>
+                            )}
 
-                        {message.sources && message.sources.length > 0 && (
-                            <div className="mt-3 pt-3 border-t border-gray-700">
-                                <p className="text-xs text-gray-400 font-medium mb-2">Sources:</p>
-                                <div className="flex flex-wrap gap-2">
-                                    {message.sources.map((source, idx) => (
-                                        <a 
-                                            key={idx} 
-                                            href={source.uri} 
-                                            target="_blank" 
-                                            rel="noopener noreferrer" 
-                                            className="flex items-center gap-1.5 px-2 py-1 bg-gray-900/50 hover:bg-gray-700 rounded text-xs text-indigo-300 transition-colors border border-gray-700"
-                                        >
-                                            <span className="truncate max-w-[150px]">{source.title}</span>
-                                        </a>
-                                    ))}
+                             {message.type === 'error' && (
+                                <div className="text-red-400 text-sm bg-red-900/20 p-3 rounded border border-red-900/50">
+                                    {message.content}
                                 </div>
-                            </div>
-                        )}
-                    </div>
-                )}
+                            )}
+
+                            {message.sources && message.sources.length > 0 && (
+                                <div className="mt-3 pt-3 border-t border-gray-700">
+                                    <p className="text-xs text-gray-400 font-medium mb-2">Sources:</p>
+                                    <div className="flex flex-wrap gap-2">
+                                        {message.sources.map((source, idx) => (
+                                            <a 
+                                                key={idx} 
+                                                href={source.uri} 
+                                                target="_blank" 
+                                                rel="noopener noreferrer" 
+                                                className="flex items-center gap-1.5 px-2 py-1 bg-gray-900/50 hover:bg-gray-700 rounded text-xs text-indigo-300 transition-colors border border-gray-700"
+                                            >
+                                                <span className="truncate max-w-[150px]">{source.title}</span>
+                                            </a>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
             </div>
+            {branchControls}
         </div>
     );
 };
@@ -0,0 +1,133 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { Deck } from '../types';
+import type { SlideChange } from '../utils/deck';
+import { CloseIcon } from './icons';
+import SlideRenderer, { SlideStyles } from './SlideRenderer';
+import { compareDecks, getDeckVersion } from '../utils/deck';
+
+interface DeckCompareViewProps {
+  // Every version of the deck, oldest first.
+  versions: Deck[];
+  before: number;
+  after: number;
+  // Version that new edits currently build on; it cannot be restored again.
+  currentVersion: number;
+  onRestore: (version: number) => void;
+  onClose: () => void;
+}
+
+const CHANGE_BADGES: Record<SlideChange, { label: string; className: string } | null> = {
+  unchanged: null,
+  changed: { label: 'Changed', className: 'bg-amber-500/20 text-amber-300' },
+  added: { label: 'Added', className: 'bg-green-500/20 text-green-300' },
+  removed: { label: 'Removed', className: 'bg-red-500/20 text-red-300' },
+};
+
+const versionLabel = (deck: Deck) => `Version ${getDeckVersion(deck)}${deck.note ? ` — ${deck.note}` : ''}`;
+
+const VersionSelect: React.FC<{ versions: Deck[]; value: number; onChange: (version: number) => void; label: string }> = ({ versions, value, onChange, label }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(Number(e.target.value))}
+    aria-label={label}
+    className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-sm text-white focus:outline-none focus:border-indigo-500"
+  >
+    {versions.map(deck => (
+      <option key={getDeckVersion(deck)} value={getDeckVersion(deck)}>{versionLabel(deck)}</option>
+    ))}
+  </select>
+);
+
+const EmptySlot: React.FC<{ text: string }> = ({ text }) => (
+  <div className="aspect-video rounded border border-dashed border-gray-700 flex items-center justify-center text-xs text-gray-500">{text}</div>
+);
+
+// Two versions of a deck side by side, one row per slide, paired up by slide id.
+const DeckCompareView: React.FC<DeckCompareViewProps> = ({ versions, before, after, currentVersion, onRestore, onClose }) => {
+  const [beforeVersion, setBeforeVersion] = useState(before);
+  const [afterVersion, setAfterVersion] = useState(after);
+  const [onlyChanges, setOnlyChanges] = useState(false);
+
+  const findVersion = (version: number) => versions.find(d => getDeckVersion(d) === version) ?? versions[versions.length - 1];
+  const beforeDeck = findVersion(beforeVersion);
+  const afterDeck = findVersion(afterVersion);
+
+  const rows = useMemo(() => compareDecks(beforeDeck, afterDeck), [beforeDeck, afterDeck]);
+  const changedCount = rows.filter(r => r.change !== 'unchanged').length;
+  const visibleRows = onlyChanges ? rows.filter(r => r.change !== 'unchanged') : rows;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const restoreButton = (deck: Deck) => getDeckVersion(deck) !== currentVersion && (
+    <button
+      onClick={() => onRestore(getDeckVersion(deck))}
+      className="flex-shrink-0 px-3 py-1.5 text-xs font-medium rounded bg-indigo-600 hover:bg-indigo-500 text-white"
+    >
+      Restore
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-gray-950 flex flex-col text-white z-[60]">
+      <SlideStyles />
+      <header className="flex-shrink-0 border-b border-gray-800 px-4 py-3 space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold truncate">Compare versions</h2>
+            <p className="text-xs text-gray-400">
+              {changedCount ? `${changedCount} of ${rows.length} slides differ.` : 'These versions have the same slides.'}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input type="checkbox" checked={onlyChanges} onChange={(e) => setOnlyChanges(e.target.checked)} className="accent-indigo-500" />
+              Only changes
+            </label>
+            <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-800" aria-label="Close comparison">
+              <CloseIcon className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+        <div className="grid grid-cols-[1fr_1fr_5rem] gap-4">
+          <div className="flex items-center gap-2">
+            <VersionSelect versions={versions} value={getDeckVersion(beforeDeck)} onChange={setBeforeVersion} label="Version on the left" />
+            {restoreButton(beforeDeck)}
+          </div>
+          <div className="flex items-center gap-2">
+            <VersionSelect versions={versions} value={getDeckVersion(afterDeck)} onChange={setAfterVersion} label="Version on the right" />
+            {restoreButton(afterDeck)}
+          </div>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-y-auto p-4">
+        <div className="max-w-6xl mx-auto space-y-4">
+          {visibleRows.map((row, i) => {
+            const badge = CHANGE_BADGES[row.change];
+            const beforeIndex = row.before ? beforeDeck.slides.indexOf(row.before) : -1;
+            const afterIndex = row.after ? afterDeck.slides.indexOf(row.after) : -1;
+            return (
+              <div key={row.after?.id ?? row.before?.id ?? i} className={`grid grid-cols-[1fr_1fr_5rem] gap-4 items-center ${row.change === 'unchanged' ? 'opacity-60' : ''}`}>
+                {row.before
+                  ? <SlideRenderer slide={row.before} index={beforeIndex} total={beforeDeck.slides.length} theme={beforeDeck.theme} />
+                  : <EmptySlot text={`Not in version ${getDeckVersion(beforeDeck)}`} />}
+                {row.after
+                  ? <SlideRenderer slide={row.after} index={afterIndex} total={afterDeck.slides.length} theme={afterDeck.theme} />
+                  : <EmptySlot text={`Not in version ${getDeckVersion(afterDeck)}`} />}
+                <div>
+                  {badge && <span className={`inline-block px-2 py-0.5 rounded text-xs font-medium ${badge.className}`}>{badge.label}</span>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeckCompareView;
@@ -0,0 +1,79 @@
+import React from 'react';
+import type { ImageAspectRatio, ImageStylePreset } from '../types';
+import { IMAGE_ASPECT_RATIOS, MAX_IMAGE_VARIATIONS } from '../utils/imageOptions';
+
+export interface ImageOptions {
+  aspectRatio: ImageAspectRatio;
+  count: number;
+  styleId: string | null;
+}
+
+interface ImageOptionsBarProps {
+  options: ImageOptions;
+  onChange: (options: ImageOptions) => void;
+  stylePresets: ImageStylePreset[];
+  onCreateStylePreset: () => void;
+  onManageStylePresets: () => void;
+  disabled?: boolean;
+}
+
+const selectClass = 'bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-pink-500 disabled:opacity-50';
+
+// Settings for the next image request, shown above the input in image mode.
+const ImageOptionsBar: React.FC<ImageOptionsBarProps> = ({ options, onChange, stylePresets, onCreateStylePreset, onManageStylePresets, disabled }) => {
+  const handleStyleChange = (value: string) => {
+    if (value === '__new') onCreateStylePreset();
+    else if (value === '__manage') onManageStylePresets();
+    else onChange({ ...options, styleId: value || null });
+  };
+
+  return (
+    <div className="mb-2 px-3 py-2 bg-gray-800/80 backdrop-blur-sm rounded-lg flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-gray-400 animate-fade-in-up">
+      <label className="flex items-center gap-2">
+        Aspect ratio
+        <select
+          value={options.aspectRatio}
+          onChange={(e) => onChange({ ...options, aspectRatio: e.target.value as ImageAspectRatio })}
+          disabled={disabled}
+          className={selectClass}
+        >
+          {(Object.keys(IMAGE_ASPECT_RATIOS) as ImageAspectRatio[]).map(ratio => (
+            <option key={ratio} value={ratio}>{`${ratio} · ${IMAGE_ASPECT_RATIOS[ratio]}`}</option>
+          ))}
+        </select>
+      </label>
+      <div className="flex items-center gap-2" role="group" aria-label="Number of variations">
+        Variations
+        <div className="flex rounded overflow-hidden border border-gray-700">
+          {Array.from({ length: MAX_IMAGE_VARIATIONS }, (_, i) => i + 1).map(count => (
+            <button
+              key={count}
+              onClick={() => onChange({ ...options, count })}
+              disabled={disabled}
+              aria-pressed={options.count === count}
+              className={`w-7 py-1 tabular-nums transition-colors disabled:opacity-50 ${options.count === count ? 'bg-pink-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+            >
+              {count}
+            </button>
+          ))}
+        </div>
+      </div>
+      <label className="flex items-center gap-2">
+        Style
+        <select
+          value={options.styleId ?? ''}
+          onChange={(e) => handleStyleChange(e.target.value)}
+          disabled={disabled}
+          className={`${selectClass} max-w-[12rem]`}
+        >
+          <option value="">None</option>
+          {stylePresets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+          <option value="__new">Save new style…</option>
+          <option value="__manage">Manage styles…</option>
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default ImageOptionsBar;
@@ -0,0 +1,59 @@
+import React from 'react';
+import type { ImageStylePreset } from '../types';
+import { NewChatIcon, TrashIcon } from './icons';
+import { createStylePreset } from '../utils/imageOptions';
+
+interface ImageStyleSettingsProps {
+  stylePresets: ImageStylePreset[];
+  onChange: (stylePresets: ImageStylePreset[]) => void;
+}
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500';
+
+const ImageStyleSettings: React.FC<ImageStyleSettingsProps> = ({ stylePresets, onChange }) => {
+  const update = (id: string, updates: Partial<ImageStylePreset>) =>
+    onChange(stylePresets.map(p => (p.id === id ? { ...p, ...updates } : p)));
+
+  return (
+    <div className="h-full overflow-y-auto space-y-4 pr-1">
+      <p className="text-sm text-gray-400">
+        A style's description is added to your prompt in image mode. Images already generated keep the style they were made with.
+      </p>
+      {stylePresets.map(preset => (
+        <div key={preset.id} className="p-3 rounded-lg bg-gray-800/60 border border-gray-800 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={preset.name}
+              onChange={(e) => update(preset.id, { name: e.target.value })}
+              aria-label="Style name"
+              className={inputClass}
+            />
+            <button
+              onClick={() => window.confirm(`Delete the style "${preset.name}"?`) && onChange(stylePresets.filter(p => p.id !== preset.id))}
+              className="p-2 rounded text-red-400 hover:bg-red-500/10"
+              aria-label={`Delete ${preset.name}`}
+            >
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </div>
+          <textarea
+            value={preset.prompt}
+            onChange={(e) => update(preset.id, { prompt: e.target.value })}
+            aria-label="Style description"
+            rows={2}
+            className={`${inputClass} resize-y`}
+          />
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...stylePresets, createStylePreset('New style', '')])}
+        className="flex items-center gap-2 px-3 py-2 rounded-md text-sm text-indigo-300 hover:bg-gray-800/60 transition-colors"
+      >
+        <NewChatIcon className="w-4 h-4" /> New style
+      </button>
+    </div>
+  );
+};
+
+export default ImageStyleSettings;
@@ -0,0 +1,104 @@
+import React from 'react';
+import type { ModelSettings } from '../types';
+import { resolveModel } from '../services/providers';
+import type { ModelProvider } from '../services/providers';
+import { MAX_OUTPUT_TOKENS_LIMIT, TEMPERATURE_RANGE, THINKING_BUDGETS, TOP_P_RANGE } from '../utils/modelSettings';
+
+interface ModelSettingsPanelProps {
+  provider: ModelProvider;
+  settings: ModelSettings;
+  onChange: (settings: ModelSettings) => void;
+}
+
+const selectClass = 'w-full bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-sm text-white focus:outline-none focus:border-indigo-500';
+
+// Slider for a parameter that stays at the model's default until it is moved.
+const RangeSetting: React.FC<{
+  label: string;
+  value?: number;
+  range: { min: number; max: number; step: number };
+  placeholder: number;
+  onChange: (value?: number) => void;
+}> = ({ label, value, range, placeholder, onChange }) => (
+  <label className="block space-y-1">
+    <span className="flex items-center justify-between text-xs text-gray-400">
+      {label}
+      <span className="flex items-center gap-2">
+        <span className="tabular-nums text-gray-300">{value ?? 'Default'}</span>
+        {value !== undefined && (
+          <button type="button" onClick={() => onChange(undefined)} className="text-gray-500 hover:text-white underline">reset</button>
+        )}
+      </span>
+    </span>
+    <input
+      type="range"
+      {...range}
+      value={value ?? placeholder}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className={`w-full accent-indigo-500 ${value === undefined ? 'opacity-40' : ''}`}
+    />
+  </label>
+);
+
+const ModelSettingsPanel: React.FC<ModelSettingsPanelProps> = ({ provider, settings, onChange }) => {
+  const update = (updates: Partial<ModelSettings>) => onChange({ ...settings, ...updates });
+
+  return (
+    <div className="p-4 space-y-4">
+      <label className="block space-y-1">
+        <span className="block text-xs text-gray-400">Chat model</span>
+        <select value={resolveModel(provider, 'text', settings.textModel)} onChange={(e) => update({ textModel: e.target.value })} className={selectClass}>
+          {provider.textModels.map(model => <option key={model} value={model}>{model}</option>)}
+        </select>
+      </label>
+      {provider.imageModels.length > 0 && (
+        <label className="block space-y-1">
+          <span className="block text-xs text-gray-400">Image model</span>
+          <select value={resolveModel(provider, 'image', settings.imageModel)} onChange={(e) => update({ imageModel: e.target.value })} className={selectClass}>
+            {provider.imageModels.map(model => <option key={model} value={model}>{model}</option>)}
+          </select>
+        </label>
+      )}
+
+      <RangeSetting label="Temperature" value={settings.temperature} range={TEMPERATURE_RANGE} placeholder={1} onChange={(temperature) => update({ temperature })} />
+      <RangeSetting label="Top-p" value={settings.topP} range={TOP_P_RANGE} placeholder={0.95} onChange={(topP) => update({ topP })} />
+
+      <label className="block space-y-1">
+        <span className="block text-xs text-gray-400" title="Not applied to presentations, which would be cut off">Max output tokens</span>
+        <input
+          type="number"
+          min={1}
+          max={MAX_OUTPUT_TOKENS_LIMIT}
+          value={settings.maxOutputTokens ?? ''}
+          placeholder="Default"
+          onChange={(e) => {
+            const value = Math.round(Number(e.target.value));
+            update({ maxOutputTokens: e.target.value && value > 0 ? Math.min(value, MAX_OUTPUT_TOKENS_LIMIT) : undefined });
+          }}
+          className={selectClass}
+        />
+      </label>
+
+      {provider.supportsThinkingBudget && (
+        <label className="block space-y-1">
+          <span className="block text-xs text-gray-400">Thinking budget</span>
+          <select
+            value={settings.thinkingBudget ?? ''}
+            onChange={(e) => update({ thinkingBudget: e.target.value === '' ? undefined : Number(e.target.value) })}
+            className={selectClass}
+          >
+            <option value="">Default</option>
+            {THINKING_BUDGETS.map(budget => <option key={budget.value} value={budget.value}>{budget.label}</option>)}
+          </select>
+        </label>
+      )}
+
+      <div className="flex items-center justify-between pt-1 text-xs text-gray-500">
+        <span>Applies to the next reply.</span>
+        <button type="button" onClick={() => onChange({})} className="hover:text-white underline">Reset all</button>
+      </div>
+    </div>
+  );
+};
+
+export default ModelSettingsPanel;
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import type { Persona } from '../types';
+import { CloseIcon } from './icons';
+
+interface PersonaDialogProps {
+  persona: Persona;
+  onSave: (persona: Persona) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500';
+
+// Edits one chat's persona, a copy of a library persona or instructions written for this chat only;
+// the library is left alone.
+const PersonaDialog: React.FC<PersonaDialogProps> = ({ persona, onSave, onClose }) => {
+  const [draft, setDraft] = useState(persona);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" onMouseDown={(e) => { if (e.target === e.currentTarget) onClose(); }}>
+      <div role="dialog" aria-modal="true" aria-label="Instructions for this chat" className="w-full max-w-lg bg-gray-900 text-white border border-gray-800 rounded-xl shadow-2xl animate-fade-in-up">
+        <header className="flex items-center justify-between px-5 py-3 border-b border-gray-800">
+          <h2 className="text-lg font-semibold">Instructions for this chat</h2>
+          <button onClick={onClose} className="p-1.5 rounded-full text-gray-400 hover:text-white hover:bg-gray-800" aria-label="Close">
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </header>
+        <div className="p-5 space-y-3">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={draft.icon}
+              onChange={(e) => setDraft({ ...draft, icon: e.target.value })}
+              aria-label="Persona icon"
+              maxLength={4}
+              className={`${inputClass} !w-12 text-center`}
+            />
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              aria-label="Persona name"
+              className={inputClass}
+            />
+          </div>
+          <textarea
+            value={draft.instructions}
+            onChange={(e) => setDraft({ ...draft, instructions: e.target.value })}
+            aria-label="Instructions"
+            rows={8}
+            autoFocus
+            placeholder="How the assistant should behave in this chat"
+            className={`${inputClass} resize-y`}
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={draft.useSearch}
+              onChange={(e) => setDraft({ ...draft, useSearch: e.target.checked })}
+              className="accent-indigo-500"
+            />
+            Ground chat replies with web search
+          </label>
+          <p className="text-xs text-gray-500">Changes apply to the next message; earlier replies stay as they are.</p>
+        </div>
+        <footer className="flex justify-end gap-2 px-5 py-3 border-t border-gray-800">
+          <button onClick={onClose} className="px-3 py-1.5 rounded-md text-sm text-gray-300 hover:bg-gray-800">Cancel</button>
+          <button
+            onClick={() => onSave({ ...draft, name: draft.name.trim() || persona.name, icon: draft.icon.trim() || persona.icon })}
+            className="px-3 py-1.5 rounded-md text-sm bg-indigo-600 hover:bg-indigo-500"
+          >
+            Save
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default PersonaDialog;
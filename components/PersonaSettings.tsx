@@ -0,0 +1,99 @@
+import React from 'react';
+import type { Persona, ProviderId } from '../types';
+import { NewChatIcon, TrashIcon } from './icons';
+import { listProviders } from '../services/providers';
+import { PERSONA_MODES, createPersona } from '../utils/personas';
+
+interface PersonaSettingsProps {
+  personas: Persona[];
+  onChange: (personas: Persona[]) => void;
+}
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500';
+const selectClass = 'bg-gray-900 border border-gray-700 rounded px-2 py-1.5 text-sm text-white focus:outline-none focus:border-indigo-500';
+
+const PersonaSettings: React.FC<PersonaSettingsProps> = ({ personas, onChange }) => {
+  const update = (id: string, updates: Partial<Persona>) =>
+    onChange(personas.map(p => (p.id === id ? { ...p, ...updates } : p)));
+
+  return (
+    <div className="h-full overflow-y-auto space-y-4 pr-1">
+      <p className="text-sm text-gray-400">
+        Start a chat with a persona from the arrow next to New Chat. Each chat keeps its own copy, so changes here only
+        affect chats started afterwards.
+      </p>
+      {personas.map(persona => (
+        <div key={persona.id} className="p-3 rounded-lg bg-gray-800/60 border border-gray-800 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={persona.icon}
+              onChange={(e) => update(persona.id, { icon: e.target.value })}
+              aria-label="Persona icon"
+              maxLength={4}
+              className={`${inputClass} !w-12 text-center`}
+            />
+            <input
+              type="text"
+              value={persona.name}
+              onChange={(e) => update(persona.id, { name: e.target.value })}
+              aria-label="Persona name"
+              className={inputClass}
+            />
+            <button
+              onClick={() => window.confirm(`Delete the persona "${persona.name}"?`) && onChange(personas.filter(p => p.id !== persona.id))}
+              className="p-2 rounded text-red-400 hover:bg-red-500/10"
+              aria-label={`Delete ${persona.name}`}
+            >
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </div>
+          <textarea
+            value={persona.instructions}
+            onChange={(e) => update(persona.id, { instructions: e.target.value })}
+            aria-label="Instructions"
+            placeholder="How the assistant should behave, e.g. “You are a patient maths tutor. Explain step by step.”"
+            rows={4}
+            className={`${inputClass} resize-y`}
+          />
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-gray-400">
+            <label className="flex items-center gap-2">
+              Starts in
+              <select value={persona.defaultMode} onChange={(e) => update(persona.id, { defaultMode: e.target.value as Persona['defaultMode'] })} className={selectClass}>
+                {(Object.keys(PERSONA_MODES) as Persona['defaultMode'][]).map(mode => <option key={mode} value={mode}>{PERSONA_MODES[mode]}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Model
+              <select
+                value={persona.providerId ?? ''}
+                onChange={(e) => update(persona.id, { providerId: (e.target.value || undefined) as ProviderId | undefined })}
+                className={selectClass}
+              >
+                <option value="">App default</option>
+                {listProviders().map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-gray-300">
+              <input
+                type="checkbox"
+                checked={persona.useSearch}
+                onChange={(e) => update(persona.id, { useSearch: e.target.checked })}
+                className="accent-indigo-500"
+              />
+              Web search
+            </label>
+          </div>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...personas, createPersona('New persona')])}
+        className="flex items-center gap-2 px-3 py-2 rounded-md text-sm text-indigo-300 hover:bg-gray-800/60 transition-colors"
+      >
+        <NewChatIcon className="w-4 h-4" /> New persona
+      </button>
+    </div>
+  );
+};
+
+export default PersonaSettings;
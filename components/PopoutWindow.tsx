@@ -0,0 +1,58 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+
+interface PopoutWindowProps {
+  // An empty window the caller opened, and closes once this is unmounted.
+  win: Window;
+  title: string;
+  // The user closed the window.
+  onClose: () => void;
+  onKeyDown?: (e: KeyboardEvent) => void;
+  children: React.ReactNode;
+}
+
+// Renders its children in a second browser window. They stay part of this React
+// tree, so the window shares state with the app. The window is opened and closed
+// by the caller, so StrictMode's second effect run doesn't open another one.
+const PopoutWindow: React.FC<PopoutWindowProps> = ({ win, title, onClose, onKeyDown, children }) => {
+  const [container, setContainer] = useState<HTMLElement | null>(null);
+  const callbacksRef = useRef({ onClose, onKeyDown });
+  callbacksRef.current = { onClose, onKeyDown };
+
+  useEffect(() => {
+    const doc = win.document;
+    // The head is set up once per window; a re-run of this effect only replaces the root.
+    if (!doc.body.dataset.popout) {
+      doc.body.dataset.popout = 'true';
+      doc.body.className = 'bg-gray-950 text-white antialiased';
+      // The app's inline styles, plus the Tailwind runtime, which only styles the document it runs in.
+      document.querySelectorAll('style').forEach(style => doc.head.appendChild(style.cloneNode(true)));
+      const tailwind = doc.createElement('script');
+      tailwind.src = 'https://cdn.tailwindcss.com';
+      doc.head.appendChild(tailwind);
+    }
+    const root = doc.createElement('div');
+    root.className = 'h-screen';
+    doc.body.appendChild(root);
+    setContainer(root);
+
+    const handlePageHide = () => callbacksRef.current.onClose();
+    const handleKeyDown = (e: KeyboardEvent) => callbacksRef.current.onKeyDown?.(e);
+    win.addEventListener('pagehide', handlePageHide);
+    win.addEventListener('keydown', handleKeyDown);
+    return () => {
+      win.removeEventListener('pagehide', handlePageHide);
+      win.removeEventListener('keydown', handleKeyDown);
+      root.remove();
+      setContainer(null);
+    };
+  }, [win]);
+
+  useEffect(() => {
+    if (container) container.ownerDocument.title = title;
+  }, [container, title]);
+
+  return container ? createPortal(children, container) : null;
+};
+
+export default PopoutWindow;
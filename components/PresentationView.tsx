@@ -1,31 +1,322 @@
 
-import React from 'react';
-import { CloseIcon } from './icons';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { Deck } from '../types';
+import { PRESENTATION_MESSAGE_SOURCE, toSandboxedPresentation, type PresentationCommand } from '../utils/presentationHtml';
+import { CloseIcon, ChevronLeftIcon, ChevronRightIcon, EditIcon, SpinnerIcon, PresenterIcon } from './icons';
+import SlideRenderer, { SlideStyles } from './SlideRenderer';
+import PresenterConsole from './PresenterConsole';
+import PopoutWindow from './PopoutWindow';
 
 interface PresentationViewProps {
-  htmlContent: string;
+  // Structured deck; shown with the built-in slide renderer.
+  deck?: Deck;
+  // Model-authored HTML from before structured decks.
+  htmlContent?: string;
   onExit: () => void;
+  // Rewrites slides start..end (inclusive) of `deck`; resolves once the new slides are in.
+  onEditSlides?: (start: number, end: number, instruction: string, signal: AbortSignal) => Promise<void>;
 }
 
-const PresentationView: React.FC<PresentationViewProps> = ({ htmlContent, onExit }) => {
+type SlideRange = { start: number; end: number };
+
+// Where the presenter console is shown: its own window, or in place of the slides when popups are blocked.
+type PresenterView = 'closed' | 'window' | 'inline';
+
+// Checked by tag name: keys forwarded from the presenter window come from another
+// document, where `instanceof HTMLInputElement` is always false.
+const isTyping = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  return Boolean(element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.tagName === 'SELECT' || element.isContentEditable));
+};
+
+const DeckPresenter: React.FC<{ deck: Deck; onExit: () => void; onEditSlides?: PresentationViewProps['onEditSlides'] }> = ({ deck, onExit, onEditSlides }) => {
+  const [index, setIndex] = useState(0);
+  const [isEditPanelOpen, setIsEditPanelOpen] = useState(false);
+  const [selection, setSelection] = useState<SlideRange>({ start: 0, end: 0 });
+  const [instruction, setInstruction] = useState('');
+  const [isApplying, setIsApplying] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [presenterView, setPresenterView] = useState<PresenterView>('closed');
+  const [presenterWindow, setPresenterWindow] = useState<Window | null>(null);
+  // The talk timer belongs to the presentation, so closing the console does not reset it.
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const [isTimerRunning, setIsTimerRunning] = useState(false);
+  const [targetMinutes, setTargetMinutes] = useState(() => Math.max(5, deck.slides.length));
+  const total = deck.slides.length;
+
+  const goTo = useCallback((n: number) => setIndex(Math.max(0, Math.min(total - 1, n))), [total]);
+
+  // Leaving the presentation cancels a pending edit.
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (!isTimerRunning) return;
+    const timer = setInterval(() => setElapsedSeconds(s => s + 1), 1000);
+    return () => clearInterval(timer);
+  }, [isTimerRunning]);
+
+  // Shared by this window and the presenter window, so either one drives the slides.
+  const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    if (isTyping(e.target)) return;
+    if (['ArrowRight', 'ArrowDown', 'PageDown', ' '].includes(e.key)) setIndex(i => Math.min(total - 1, i + 1));
+    else if (['ArrowLeft', 'ArrowUp', 'PageUp'].includes(e.key)) setIndex(i => Math.max(0, i - 1));
+    else if (e.key === 'Home') setIndex(0);
+    else if (e.key === 'End') setIndex(total - 1);
+    else if (e.key === 'Escape') onExit();
+    else return;
+    e.preventDefault();
+  }, [total, onExit]);
+
+  useEffect(() => {
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleKeyDown]);
+
+  // Closed here rather than by PopoutWindow, whose effects run twice under StrictMode.
+  useEffect(() => {
+    if (!presenterWindow) return;
+    return () => presenterWindow.close();
+  }, [presenterWindow]);
+
+  // Opened in the click handler: popup blockers only allow windows opened in response to a click.
+  const openPresenterView = () => {
+    const win = window.open('', `pkp-popout-${Date.now()}`, 'width=1200,height=760');
+    setPresenterWindow(win);
+    setPresenterView(win ? 'window' : 'inline');
+    if (elapsedSeconds === 0) setIsTimerRunning(true);
+  };
+
+  const closePresenterView = () => {
+    setPresenterView('closed');
+    setPresenterWindow(null);
+  };
+
+  const presenterConsole = (
+    <PresenterConsole
+      deck={deck}
+      index={Math.min(index, total - 1)}
+      onGoTo={goTo}
+      elapsedSeconds={elapsedSeconds}
+      targetMinutes={targetMinutes}
+      onTargetMinutesChange={setTargetMinutes}
+      isTimerRunning={isTimerRunning}
+      onToggleTimer={() => setIsTimerRunning(running => !running)}
+      onResetTimer={() => setElapsedSeconds(0)}
+      onClose={closePresenterView}
+    />
+  );
+
+  // Shift-click extends the selection into a range.
+  const handleSelectSlide = (i: number, extend: boolean) => {
+    setSelection(prev => extend ? { start: Math.min(prev.start, i), end: Math.max(prev.end, i) } : { start: i, end: i });
+    setIndex(i);
+  };
+
+  const handleApplyEdit = async () => {
+    if (!onEditSlides || !instruction.trim() || isApplying) return;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsApplying(true);
+    setEditError(null);
+    try {
+      await onEditSlides(selection.start, selection.end, instruction.trim(), controller.signal);
+      setInstruction('');
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        setEditError(error instanceof Error ? error.message : 'The slides could not be updated.');
+      }
+    } finally {
+      if (!controller.signal.aborted) setIsApplying(false);
+      abortControllerRef.current = null;
+    }
+  };
+
+  // Keep the selection and current slide valid when an edit changes the slide count.
+  useEffect(() => {
+    setIndex(i => Math.min(i, total - 1));
+    setSelection(prev => ({ start: Math.min(prev.start, total - 1), end: Math.min(prev.end, total - 1) }));
+  }, [total]);
+
+  const slide = deck.slides[Math.min(index, total - 1)];
+  const selectionLabel = selection.end > selection.start
+    ? `slides ${selection.start + 1}–${selection.end + 1}`
+    : `slide ${selection.start + 1}`;
+
+  if (presenterView === 'inline') {
+    // Leaves room for the close button in the corner.
+    return <div className="flex-1 min-h-0 pr-14">{presenterConsole}</div>;
+  }
+
   return (
-    <div className="fixed inset-0 bg-black flex flex-col text-white z-[60]">
+    <>
+      <SlideStyles />
+      {presenterView === 'window' && presenterWindow && (
+        <PopoutWindow
+          win={presenterWindow}
+          title={`Presenter — ${deck.title}`}
+          onClose={closePresenterView}
+          onKeyDown={handleKeyDown}
+        >
+          {presenterConsole}
+        </PopoutWindow>
+      )}
+      <div className="flex-1 min-h-0 flex items-center justify-center" style={{ containerType: 'size' }}>
+        <div style={{ width: 'min(100cqw, calc(100cqh * 16 / 9))' }}>
+          <SlideRenderer slide={slide} index={index} total={total} theme={deck.theme} />
+        </div>
+      </div>
+
+      {isEditPanelOpen ? (
+        <div className="flex-shrink-0 border-t border-gray-800 bg-gray-950 p-3 space-y-3">
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {deck.slides.map((s, i) => {
+              const isSelected = i >= selection.start && i <= selection.end;
+              return (
+                <button
+                  key={s.id}
+                  onClick={(e) => handleSelectSlide(i, e.shiftKey)}
+                  className={`w-36 flex-shrink-0 rounded overflow-hidden border-2 transition-colors ${isSelected ? 'border-indigo-400' : 'border-transparent hover:border-gray-600'}`}
+                  aria-label={`Select slide ${i + 1}`}
+                  aria-pressed={isSelected}
+                >
+                  <SlideRenderer slide={s} index={i} total={total} theme={deck.theme} />
+                </button>
+              );
+            })}
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleApplyEdit(); }}
+              disabled={isApplying}
+              placeholder={`What should change on ${selectionLabel}? (Shift-click to select a range)`}
+              className="flex-1 bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500 placeholder-gray-500 disabled:opacity-60"
+            />
+            <button
+              onClick={handleApplyEdit}
+              disabled={isApplying || !instruction.trim()}
+              className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-700 disabled:cursor-not-allowed px-4 py-2 rounded text-sm font-medium text-white"
+            >
+              {isApplying && <SpinnerIcon className="w-4 h-4" />}
+              {isApplying ? 'Updating…' : `Update ${selectionLabel}`}
+            </button>
+          </div>
+          {editError && <p className="text-xs text-red-400">{editError}</p>}
+        </div>
+      ) : (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-2 px-2 py-1 rounded-full bg-black/50 text-sm text-white/80">
+          <button onClick={() => goTo(index - 1)} disabled={index === 0} className="p-1.5 rounded-full hover:bg-white/10 disabled:opacity-30" aria-label="Previous slide">
+            <ChevronLeftIcon className="w-5 h-5" />
+          </button>
+          <span className="tabular-nums">{index + 1} / {total}</span>
+          <button onClick={() => goTo(index + 1)} disabled={index === total - 1} className="p-1.5 rounded-full hover:bg-white/10 disabled:opacity-30" aria-label="Next slide">
+            <ChevronRightIcon className="w-5 h-5" />
+          </button>
+        </div>
+      )}
+
+      <div className="absolute top-4 right-16 flex gap-2">
+        <button
+          onClick={() => presenterView === 'window' ? closePresenterView() : openPresenterView()}
+          className={`p-2 rounded-full transition-colors ${presenterView === 'window' ? 'bg-indigo-600 hover:bg-indigo-500' : 'bg-black/50 hover:bg-black/80'}`}
+          aria-label={presenterView === 'window' ? 'Close presenter view' : 'Open presenter view'}
+          title="Presenter view with notes, timer and next slide"
+        >
+          <PresenterIcon className="w-6 h-6" />
+        </button>
+        {onEditSlides && (
+          <button
+            onClick={() => { setIsEditPanelOpen(open => !open); setSelection({ start: index, end: index }); }}
+            className={`p-2 rounded-full transition-colors ${isEditPanelOpen ? 'bg-indigo-600 hover:bg-indigo-500' : 'bg-black/50 hover:bg-black/80'}`}
+            aria-label={isEditPanelOpen ? 'Close slide editing' : 'Edit slides'}
+            title="Edit selected slides"
+          >
+            <EditIcon className="w-6 h-6" />
+          </button>
+        )}
+      </div>
+    </>
+  );
+};
+
+const COMMAND_KEYS: Record<string, PresentationCommand> = {
+  ArrowRight: 'next', ArrowDown: 'next', PageDown: 'next', ' ': 'next',
+  ArrowLeft: 'previous', ArrowUp: 'previous', PageUp: 'previous',
+  Home: 'first', End: 'last',
+};
+
+// Older HTML decks run isolated (see `toSandboxedPresentation`); the parent only talks to them through postMessage.
+const SandboxedDeck: React.FC<{ html: string; onExit: () => void }> = ({ html, onExit }) => {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const srcDoc = useMemo(() => toSandboxedPresentation(html), [html]);
+
+  // The frame has an opaque origin, so '*' is the only target origin that reaches it.
+  const send = useCallback((command: PresentationCommand) => {
+    frameRef.current?.contentWindow?.postMessage({ source: PRESENTATION_MESSAGE_SOURCE, type: 'navigate', command }, '*');
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onExit();
+      else if (COMMAND_KEYS[e.key]) send(COMMAND_KEYS[e.key]);
+      else return;
+      e.preventDefault();
+    };
+    // Only messages from our own frame count; anything else on the page is ignored.
+    const handleMessage = (e: MessageEvent) => {
+      if (e.source !== frameRef.current?.contentWindow || e.data?.source !== PRESENTATION_MESSAGE_SOURCE) return;
+      if (e.data.type === 'key' && e.data.key === 'Escape') onExit();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('message', handleMessage);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('message', handleMessage);
+    };
+  }, [send, onExit]);
+
+  return (
+    <>
       <iframe
-        key={htmlContent.length} // Force re-render if content length changes significantly to prevent stale state
-        srcDoc={htmlContent}
+        ref={frameRef}
+        srcDoc={srcDoc}
         title="Presentation"
         className="w-full h-full border-0"
         scrolling="no"
-        sandbox="allow-scripts allow-same-origin allow-forms allow-popups"
+        sandbox="allow-scripts"
+        referrerPolicy="no-referrer"
       />
+      <div className="absolute bottom-4 left-4 text-white/50 text-lg font-semibold pointer-events-none" style={{ textShadow: '0 0 8px rgba(0, 0, 0, 0.7)' }}>
+        pkp.ai
+      </div>
+      <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-2 px-2 py-1 rounded-full bg-black/50 text-white/80">
+        <button onClick={() => send('previous')} className="p-1.5 rounded-full hover:bg-white/10" aria-label="Previous slide">
+          <ChevronLeftIcon className="w-5 h-5" />
+        </button>
+        <button onClick={() => send('next')} className="p-1.5 rounded-full hover:bg-white/10" aria-label="Next slide">
+          <ChevronRightIcon className="w-5 h-5" />
+        </button>
+      </div>
+    </>
+  );
+};
+
+const PresentationView: React.FC<PresentationViewProps> = ({ deck, htmlContent, onExit, onEditSlides }) => {
+  return (
+    <div className="fixed inset-0 bg-black flex flex-col text-white z-[60]">
+      {deck ? (
+        <DeckPresenter deck={deck} onExit={onExit} onEditSlides={onEditSlides} />
+      ) : (
+        <SandboxedDeck html={htmlContent ?? ''} onExit={onExit} />
+      )}
       <div className="absolute top-4 right-4">
         <button onClick={onExit} className="p-2 rounded-full bg-black/50 hover:bg-black/80 transition-colors">
           <CloseIcon className="w-6 h-6" />
         </button>
       </div>
-      <div className="absolute bottom-4 left-4 text-white/50 text-lg font-semibold pointer-events-none" style={{ textShadow: '0 0 8px rgba(0, 0, 0, 0.7)' }}>
-        pkp.ai
-      </div>
     </div>
   );
 };
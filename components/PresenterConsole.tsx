@@ -0,0 +1,136 @@
+import React, { useEffect, useRef } from 'react';
+import type { Deck } from '../types';
+import { ChevronLeftIcon, ChevronRightIcon, CloseIcon, RefreshIcon } from './icons';
+import SlideRenderer, { SlideStyles } from './SlideRenderer';
+
+interface PresenterConsoleProps {
+  deck: Deck;
+  index: number;
+  onGoTo: (index: number) => void;
+  elapsedSeconds: number;
+  // Planned length of the talk; remaining time counts down from it.
+  targetMinutes: number;
+  onTargetMinutesChange: (minutes: number) => void;
+  isTimerRunning: boolean;
+  onToggleTimer: () => void;
+  onResetTimer: () => void;
+  onClose: () => void;
+}
+
+// 75 -> "1:15", 3725 -> "1:02:05"; negative durations get a leading minus.
+const formatDuration = (totalSeconds: number) => {
+  const sign = totalSeconds < 0 ? '-' : '';
+  const seconds = Math.abs(Math.round(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, '0');
+  return h ? `${sign}${h}:${String(m).padStart(2, '0')}:${s}` : `${sign}${m}:${s}`;
+};
+
+// What the speaker sees: current and next slide, notes, the clock and every slide to jump to.
+const PresenterConsole: React.FC<PresenterConsoleProps> = ({
+  deck, index, onGoTo, elapsedSeconds, targetMinutes, onTargetMinutesChange, isTimerRunning, onToggleTimer, onResetTimer, onClose,
+}) => {
+  const currentThumbRef = useRef<HTMLButtonElement>(null);
+  const total = deck.slides.length;
+  const slide = deck.slides[index];
+  const next = deck.slides[index + 1];
+  const remaining = targetMinutes * 60 - elapsedSeconds;
+
+  useEffect(() => {
+    currentThumbRef.current?.scrollIntoView({ block: 'nearest', inline: 'center' });
+  }, [index]);
+
+  return (
+    <div className="h-full flex flex-col bg-gray-950 text-white">
+      <SlideStyles />
+      <header className="flex-shrink-0 flex flex-wrap items-center gap-4 px-4 py-3 border-b border-gray-800">
+        <div className="min-w-0 flex-1">
+          <h2 className="font-semibold truncate">{deck.title}</h2>
+          <p className="text-xs text-gray-400">Slide {index + 1} of {total}</p>
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={() => onGoTo(index - 1)} disabled={index === 0} className="p-2 rounded-full hover:bg-gray-800 disabled:opacity-30" aria-label="Previous slide">
+            <ChevronLeftIcon className="w-5 h-5" />
+          </button>
+          <button onClick={() => onGoTo(index + 1)} disabled={index === total - 1} className="p-2 rounded-full hover:bg-gray-800 disabled:opacity-30" aria-label="Next slide">
+            <ChevronRightIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="flex items-center gap-4 tabular-nums">
+          <div>
+            <p className="text-[10px] uppercase tracking-wide text-gray-500">Elapsed</p>
+            <p className="text-2xl font-semibold">{formatDuration(elapsedSeconds)}</p>
+          </div>
+          <div>
+            <p className="text-[10px] uppercase tracking-wide text-gray-500">Remaining</p>
+            <p className={`text-2xl font-semibold ${remaining < 0 ? 'text-red-400' : remaining < 60 ? 'text-amber-300' : ''}`}>{formatDuration(remaining)}</p>
+          </div>
+          <label className="text-xs text-gray-400">
+            Target
+            <input
+              type="number"
+              min={1}
+              value={targetMinutes}
+              onChange={(e) => onTargetMinutesChange(Math.max(1, Number(e.target.value) || 1))}
+              className="ml-2 w-16 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-indigo-500"
+            />
+            <span className="ml-1">min</span>
+          </label>
+          <button onClick={onToggleTimer} className="px-3 py-1.5 rounded bg-gray-800 hover:bg-gray-700 text-sm">
+            {isTimerRunning ? 'Pause' : 'Resume'}
+          </button>
+          <button onClick={onResetTimer} className="p-2 rounded-full hover:bg-gray-800" aria-label="Reset timer" title="Reset timer">
+            <RefreshIcon className="w-4 h-4" />
+          </button>
+        </div>
+        <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-800" aria-label="Close presenter view">
+          <CloseIcon className="w-5 h-5" />
+        </button>
+      </header>
+
+      <div className="flex-1 min-h-0 grid grid-cols-[3fr_2fr] gap-4 p-4">
+        <div className="min-h-0 flex items-center justify-center" style={{ containerType: 'size' }}>
+          <div style={{ width: 'min(100cqw, calc(100cqh * 16 / 9))' }}>
+            <SlideRenderer slide={slide} index={index} total={total} theme={deck.theme} />
+          </div>
+        </div>
+        <div className="min-h-0 flex flex-col gap-4">
+          <div>
+            <p className="text-xs uppercase tracking-wide text-gray-500 mb-1">Next</p>
+            {next ? (
+              <button onClick={() => onGoTo(index + 1)} className="block w-full max-w-sm rounded overflow-hidden border border-gray-800 hover:border-gray-600" aria-label="Go to the next slide">
+                <SlideRenderer slide={next} index={index + 1} total={total} theme={deck.theme} />
+              </button>
+            ) : (
+              <p className="text-sm text-gray-400">End of presentation</p>
+            )}
+          </div>
+          <div className="flex-1 min-h-0 flex flex-col">
+            <p className="text-xs uppercase tracking-wide text-gray-500 mb-1">Notes</p>
+            <div className="flex-1 overflow-y-auto rounded bg-gray-900 p-4 text-lg leading-relaxed whitespace-pre-wrap">
+              {slide.notes || <span className="text-gray-500 text-sm">No notes for this slide.</span>}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-shrink-0 flex gap-2 overflow-x-auto px-4 pb-4">
+        {deck.slides.map((s, i) => (
+          <button
+            key={s.id}
+            ref={i === index ? currentThumbRef : undefined}
+            onClick={() => onGoTo(i)}
+            className={`w-32 flex-shrink-0 rounded overflow-hidden border-2 transition-colors ${i === index ? 'border-indigo-400' : 'border-transparent hover:border-gray-600'}`}
+            aria-label={`Go to slide ${i + 1}`}
+            aria-current={i === index}
+          >
+            <SlideRenderer slide={s} index={i} total={total} theme={deck.theme} />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PresenterConsole;
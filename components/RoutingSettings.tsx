@@ -0,0 +1,31 @@
+import React from 'react';
+
+interface RoutingSettingsProps {
+  autoRouting: boolean;
+  onChange: (autoRouting: boolean) => void;
+}
+
+const RoutingSettings: React.FC<RoutingSettingsProps> = ({ autoRouting, onChange }) => (
+  <div className="h-full overflow-y-auto space-y-5 pr-1 max-w-lg">
+    <p className="text-sm text-gray-400">
+      Messages sent in Chat mode are first checked by the model to see whether they ask for an image, a new
+      presentation or a change to the current one, and are answered in that mode. Image and Presentation mode
+      messages are always sent as they are.
+    </p>
+
+    <label className="flex items-start gap-3 text-sm text-gray-300">
+      <input
+        type="checkbox"
+        checked={autoRouting}
+        onChange={(e) => onChange(e.target.checked)}
+        className="mt-1 accent-indigo-500"
+      />
+      <span>
+        Switch modes automatically
+        <span className="block text-xs text-gray-500">Adds a short model call before each chat message. A switch can be undone from the message box.</span>
+      </span>
+    </label>
+  </div>
+);
+
+export default RoutingSettings;
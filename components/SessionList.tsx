@@ -0,0 +1,294 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { ChatFolder, ChatSession } from '../types';
+import { MoreVerticalIcon, EditIcon, TrashIcon, CheckIcon, DownloadIcon, PinIcon, FolderIcon, TagIcon, ArchiveIcon, ChevronDownIcon, ChevronLeftIcon, NewChatIcon, CloseIcon } from './icons';
+
+export type SessionExportFormat = 'json' | 'md' | 'html' | 'pdf';
+
+const EXPORT_LABELS: Record<SessionExportFormat, string> = { json: 'JSON', md: 'Markdown', html: 'HTML', pdf: 'PDF' };
+
+interface SessionListProps {
+  sessions: ChatSession[];
+  folders: ChatFolder[];
+  activeSessionId: string | null;
+  onSelectSession: (sessionId: string) => void;
+  onUpdateSession: (sessionId: string, updates: Partial<ChatSession>) => void;
+  onDeleteSession: (sessionId: string) => void;
+  onExportSession: (session: ChatSession, format: SessionExportFormat) => void;
+  onCreateFolder: (name: string) => ChatFolder;
+  onUpdateFolder: (folderId: string, updates: Partial<ChatFolder>) => void;
+  onDeleteFolder: (folderId: string) => void;
+}
+
+// Most recent activity first.
+const byActivity = (a: ChatSession, b: ChatSession) => b.updatedAt.localeCompare(a.updatedAt);
+
+const parseTags = (input: string): string[] =>
+  [...new Set(input.split(',').map(t => t.trim().replace(/^#/, '')).filter(Boolean))];
+
+const menuItemClass = "w-full flex items-center gap-2 px-3 py-2 text-sm text-left hover:bg-gray-800 transition-colors";
+
+const SessionList: React.FC<SessionListProps> = ({ sessions, folders, activeSessionId, onSelectSession, onUpdateSession, onDeleteSession, onExportSession, onCreateFolder, onUpdateFolder, onDeleteFolder }) => {
+  const [renamingSessionId, setRenamingSessionId] = useState<string | null>(null);
+  const [openMenuSessionId, setOpenMenuSessionId] = useState<string | null>(null);
+  const [isFolderMenuOpen, setIsFolderMenuOpen] = useState(false);
+  const [tempTitle, setTempTitle] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+        if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+            setOpenMenuSessionId(null);
+        }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  useEffect(() => {
+    if (!openMenuSessionId) setIsFolderMenuOpen(false);
+  }, [openMenuSessionId]);
+
+  const handleStartRename = (session: ChatSession) => {
+    setRenamingSessionId(session.id);
+    setTempTitle(session.title);
+    setOpenMenuSessionId(null);
+  };
+
+  const handleSaveRename = (sessionId: string) => {
+    if (tempTitle.trim()) {
+        onUpdateSession(sessionId, { title: tempTitle.trim() });
+    }
+    setRenamingSessionId(null);
+  };
+
+  const handleEditTags = (session: ChatSession) => {
+    setOpenMenuSessionId(null);
+    const input = window.prompt("Tags for this chat (comma separated):", (session.tags ?? []).join(', '));
+    if (input !== null) onUpdateSession(session.id, { tags: parseTags(input) });
+  };
+
+  const handleMoveToNewFolder = (session: ChatSession) => {
+    setOpenMenuSessionId(null);
+    const name = window.prompt("New folder name:");
+    if (name?.trim()) onUpdateSession(session.id, { folderId: onCreateFolder(name.trim()).id });
+  };
+
+  const handleCreateFolder = () => {
+    const name = window.prompt("New folder name:");
+    if (name?.trim()) onCreateFolder(name.trim());
+  };
+
+  const handleRenameFolder = (folder: ChatFolder) => {
+    const name = window.prompt("Rename folder:", folder.name);
+    if (name?.trim()) onUpdateFolder(folder.id, { name: name.trim() });
+  };
+
+  const handleDeleteFolder = (folder: ChatFolder) => {
+    if (!window.confirm(`Delete the folder "${folder.name}"? Its chats are kept and moved out of the folder.`)) return;
+    onDeleteFolder(folder.id);
+  };
+
+  const folderIds = new Set(folders.map(f => f.id));
+  const visible = sessions
+    .filter(s => (showArchived ? s.archived : !s.archived))
+    .filter(s => !tagFilter || s.tags?.includes(tagFilter));
+  const archivedCount = sessions.filter(s => s.archived).length;
+  const pinned = visible.filter(s => s.pinned).sort(byActivity);
+  const folderGroups = folders.map(folder => ({
+    folder,
+    sessions: visible.filter(s => !s.pinned && s.folderId === folder.id).sort(byActivity),
+  }));
+  const unfiled = visible.filter(s => !s.pinned && !(s.folderId && folderIds.has(s.folderId))).sort(byActivity);
+
+  const renderSession = (session: ChatSession) => (
+    <div key={session.id} className="relative group">
+      {renamingSessionId === session.id ? (
+        <div className="flex items-center gap-2 p-1">
+          <input
+            type="text"
+            value={tempTitle}
+            onChange={(e) => setTempTitle(e.target.value)}
+            onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSaveRename(session.id);
+                if (e.key === 'Escape') setRenamingSessionId(null);
+            }}
+            onBlur={() => handleSaveRename(session.id)}
+            className="w-full bg-gray-600 text-white px-2 py-1.5 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            autoFocus
+          />
+          <button onClick={() => handleSaveRename(session.id)} className="p-1 text-gray-300 hover:text-white">
+              <CheckIcon className="w-5 h-5" />
+          </button>
+        </div>
+      ) : (
+        <a
+          href="#"
+          onClick={(e) => {
+              e.preventDefault();
+              onSelectSession(session.id);
+          }}
+          className={`block w-full text-left pl-3 pr-8 py-2 rounded-md text-sm transition-colors ${
+            session.id === activeSessionId ? 'bg-gray-700' : 'hover:bg-gray-800'
+          }`}
+        >
+          <span className="flex items-center gap-1.5">
+            {session.pinned && <PinIcon className="w-3 h-3 flex-shrink-0 text-amber-400" />}
+            <span className="truncate">{session.title}</span>
+          </span>
+          {session.tags && session.tags.length > 0 && (
+            <span className="flex flex-wrap gap-1 mt-1">
+              {session.tags.map(tag => (
+                <span
+                  key={tag}
+                  onClick={(e) => { e.preventDefault(); e.stopPropagation(); setTagFilter(tag); }}
+                  className="px-1.5 py-px text-[10px] rounded bg-gray-800 text-gray-400 hover:text-white hover:bg-gray-600"
+                >
+                  #{tag}
+                </span>
+              ))}
+            </span>
+          )}
+        </a>
+      )}
+      {renamingSessionId !== session.id && (
+        <div className="absolute top-1.5 right-1.5 opacity-0 group-hover:opacity-100 transition-opacity">
+          <button onClick={() => setOpenMenuSessionId(session.id === openMenuSessionId ? null : session.id)} className="p-1 text-gray-400 hover:text-white rounded-md">
+            <MoreVerticalIcon className="w-4 h-4" />
+          </button>
+          {openMenuSessionId === session.id && (
+            <div ref={menuRef} className="absolute top-full mt-1 right-0 w-48 bg-gray-950/80 backdrop-blur-md border border-gray-700 rounded-lg shadow-2xl z-10 animate-fade-in-up overflow-hidden">
+              {isFolderMenuOpen ? (
+                <>
+                  <button onClick={(e) => { e.stopPropagation(); setIsFolderMenuOpen(false); }} className={`${menuItemClass} text-gray-400`}>
+                      <ChevronLeftIcon className="w-4 h-4" /> Move to folder
+                  </button>
+                  {folders.map(folder => (
+                    <button key={folder.id} onClick={(e) => { e.stopPropagation(); onUpdateSession(session.id, { folderId: folder.id }); setOpenMenuSessionId(null); }} className={menuItemClass}>
+                        <FolderIcon className="w-4 h-4" />
+                        <span className="truncate">{folder.name}</span>
+                        {session.folderId === folder.id && <CheckIcon className="w-4 h-4 ml-auto text-indigo-400" />}
+                    </button>
+                  ))}
+                  <button onClick={(e) => { e.stopPropagation(); handleMoveToNewFolder(session); }} className={menuItemClass}>
+                      <NewChatIcon className="w-4 h-4" /> New folder…
+                  </button>
+                  {session.folderId && (
+                    <button onClick={(e) => { e.stopPropagation(); onUpdateSession(session.id, { folderId: null }); setOpenMenuSessionId(null); }} className={menuItemClass}>
+                        <CloseIcon className="w-4 h-4" /> Remove from folder
+                    </button>
+                  )}
+                </>
+              ) : (
+                <>
+                  <button onClick={(e) => { e.stopPropagation(); handleStartRename(session); }} className={menuItemClass}>
+                      <EditIcon className="w-4 h-4" /> Rename
+                  </button>
+                  <button onClick={(e) => { e.stopPropagation(); onUpdateSession(session.id, { pinned: !session.pinned }); setOpenMenuSessionId(null); }} className={menuItemClass}>
+                      <PinIcon className="w-4 h-4" /> {session.pinned ? 'Unpin' : 'Pin'}
+                  </button>
+                  <button onClick={(e) => { e.stopPropagation(); setIsFolderMenuOpen(true); }} className={menuItemClass}>
+                      <FolderIcon className="w-4 h-4" /> Move to folder
+                  </button>
+                  <button onClick={(e) => { e.stopPropagation(); handleEditTags(session); }} className={menuItemClass}>
+                      <TagIcon className="w-4 h-4" /> Edit tags
+                  </button>
+                  <button onClick={(e) => { e.stopPropagation(); onUpdateSession(session.id, { archived: !session.archived }); setOpenMenuSessionId(null); }} className={menuItemClass}>
+                      <ArchiveIcon className="w-4 h-4" /> {session.archived ? 'Unarchive' : 'Archive'}
+                  </button>
+                  {(Object.keys(EXPORT_LABELS) as SessionExportFormat[]).map(format => (
+                    <button key={format} onClick={(e) => { e.stopPropagation(); onExportSession(session, format); setOpenMenuSessionId(null); }} className={menuItemClass}>
+                        <DownloadIcon className="w-4 h-4" /> Export {EXPORT_LABELS[format]}
+                    </button>
+                  ))}
+                  <button onClick={(e) => { e.stopPropagation(); onDeleteSession(session.id); }} className={`${menuItemClass} text-red-400`}>
+                      <TrashIcon className="w-4 h-4" /> Delete
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  const sectionLabel = (label: string) => (
+    <p className="px-3 pt-3 pb-1 text-[11px] font-semibold uppercase tracking-wider text-gray-500">{label}</p>
+  );
+
+  return (
+    <nav className="flex-grow overflow-y-auto p-2 space-y-1 pb-40">
+      {tagFilter && (
+        <div className="flex items-center justify-between px-3 py-1.5 text-xs rounded-md bg-indigo-900/40 text-indigo-200">
+          <span>Tagged #{tagFilter}</span>
+          <button onClick={() => setTagFilter(null)} className="p-0.5 hover:text-white" aria-label="Clear tag filter">
+            <CloseIcon className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {showArchived ? (
+        <>
+          <button onClick={() => setShowArchived(false)} className="w-full flex items-center gap-1.5 px-3 py-2 text-sm text-gray-400 hover:text-white">
+            <ChevronLeftIcon className="w-4 h-4" /> Back to chats
+          </button>
+          {sectionLabel('Archived')}
+          {visible.length === 0 && <p className="px-3 py-2 text-sm text-gray-500">No archived chats.</p>}
+          {[...visible].sort(byActivity).map(renderSession)}
+        </>
+      ) : (
+        <>
+          {pinned.length > 0 && (
+            <>
+              {sectionLabel('Pinned')}
+              {pinned.map(renderSession)}
+            </>
+          )}
+
+          <div className="flex items-center justify-between pr-1">
+            {sectionLabel('Folders')}
+            <button onClick={handleCreateFolder} className="p-1 mt-2 text-gray-500 hover:text-white rounded" aria-label="New folder">
+              <NewChatIcon className="w-4 h-4" />
+            </button>
+          </div>
+          {folderGroups.map(({ folder, sessions: folderSessions }) => (
+            <div key={folder.id}>
+              <div className="group/folder flex items-center gap-1 px-2 py-1.5 rounded-md text-sm text-gray-300 hover:bg-gray-800">
+                <button onClick={() => onUpdateFolder(folder.id, { collapsed: !folder.collapsed })} className="flex items-center gap-1.5 flex-1 min-w-0 text-left">
+                  <ChevronDownIcon className={`w-3.5 h-3.5 flex-shrink-0 transition-transform ${folder.collapsed ? '-rotate-90' : ''}`} />
+                  <FolderIcon className="w-4 h-4 flex-shrink-0 text-gray-400" />
+                  <span className="truncate">{folder.name}</span>
+                  <span className="text-xs text-gray-500">{folderSessions.length}</span>
+                </button>
+                <button onClick={() => handleRenameFolder(folder)} className="p-0.5 text-gray-500 hover:text-white opacity-0 group-hover/folder:opacity-100" aria-label="Rename folder">
+                  <EditIcon className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => handleDeleteFolder(folder)} className="p-0.5 text-gray-500 hover:text-red-400 opacity-0 group-hover/folder:opacity-100" aria-label="Delete folder">
+                  <TrashIcon className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              {!folder.collapsed && (
+                <div className="pl-3 space-y-1">
+                  {folderSessions.map(renderSession)}
+                </div>
+              )}
+            </div>
+          ))}
+
+          {sectionLabel('Chats')}
+          {unfiled.map(renderSession)}
+
+          {archivedCount > 0 && (
+            <button onClick={() => setShowArchived(true)} className="w-full flex items-center gap-2 px-3 py-2 mt-2 text-sm text-gray-400 hover:text-white hover:bg-gray-800 rounded-md">
+              <ArchiveIcon className="w-4 h-4" /> Archived ({archivedCount})
+            </button>
+          )}
+        </>
+      )}
+    </nav>
+  );
+};
+
+export default SessionList;
@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import type { AppSettings } from '../types';
+import { CloseIcon } from './icons';
+import BrandKitSettings from './BrandKitSettings';
+import ImageStyleSettings from './ImageStyleSettings';
+import UploadSettings from './UploadSettings';
+import PersonaSettings from './PersonaSettings';
+import RoutingSettings from './RoutingSettings';
+
+export type SettingsSection = 'personas' | 'routing' | 'brandKits' | 'imageStyles' | 'uploads';
+
+const SECTION_LABELS: Record<SettingsSection, string> = {
+  personas: 'Personas',
+  routing: 'Routing',
+  brandKits: 'Brand kits',
+  imageStyles: 'Image styles',
+  uploads: 'Uploads',
+};
+
+interface SettingsModalProps {
+  settings: AppSettings;
+  onUpdateSettings: (updates: Partial<AppSettings>) => void;
+  onClose: () => void;
+  initialSection?: SettingsSection;
+}
+
+// Changes apply immediately; there is nothing to save or cancel.
+const SettingsModal: React.FC<SettingsModalProps> = ({ settings, onUpdateSettings, onClose, initialSection = 'brandKits' }) => {
+  const [section, setSection] = useState<SettingsSection>(initialSection);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" onMouseDown={(e) => { if (e.target === e.currentTarget) onClose(); }}>
+      <div role="dialog" aria-modal="true" aria-label="Settings" className="w-full max-w-4xl h-[85vh] bg-gray-900 text-white border border-gray-800 rounded-xl shadow-2xl flex flex-col animate-fade-in-up">
+        <header className="flex items-center justify-between px-5 py-3 border-b border-gray-800">
+          <h2 className="text-lg font-semibold">Settings</h2>
+          <button onClick={onClose} className="p-1.5 rounded-full text-gray-400 hover:text-white hover:bg-gray-800" aria-label="Close settings">
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </header>
+        <div className="flex-1 min-h-0 flex">
+          <nav className="w-44 flex-shrink-0 border-r border-gray-800 p-2 space-y-1">
+            {(Object.keys(SECTION_LABELS) as SettingsSection[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setSection(key)}
+                className={`w-full text-left px-3 py-2 rounded-md text-sm transition-colors ${key === section ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-gray-800'}`}
+              >
+                {SECTION_LABELS[key]}
+              </button>
+            ))}
+          </nav>
+          <div className="flex-1 min-w-0 p-5">
+            {section === 'personas' && (
+              <PersonaSettings personas={settings.personas} onChange={(personas) => onUpdateSettings({ personas })} />
+            )}
+            {section === 'routing' && (
+              <RoutingSettings autoRouting={settings.autoRouting} onChange={(autoRouting) => onUpdateSettings({ autoRouting })} />
+            )}
+            {section === 'brandKits' && (
+              <BrandKitSettings brandKits={settings.brandKits} onChange={(brandKits) => onUpdateSettings({ brandKits })} />
+            )}
+            {section === 'imageStyles' && (
+              <ImageStyleSettings stylePresets={settings.imageStylePresets} onChange={(imageStylePresets) => onUpdateSettings({ imageStylePresets })} />
+            )}
+            {section === 'uploads' && (
+              <UploadSettings settings={settings.imageUpload} onChange={(imageUpload) => onUpdateSettings({ imageUpload })} />
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
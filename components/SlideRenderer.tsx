@@ -0,0 +1,151 @@
+import React from 'react';
+import type { BrandKit, Slide } from '../types';
+import { BRAND_FONTS, DEFAULT_FOOTER } from '../utils/brandKit';
+
+// Sized in container query units, so the same markup works full screen, as a
+// thumbnail and in exported files. Colours and fonts are variables set by brand kits.
+export const SLIDE_STYLES = `
+.pkp-slide {
+  --pkp-bg: #0b1020; --pkp-surface: rgba(255, 255, 255, 0.06); --pkp-fg: #f3f4f6;
+  --pkp-muted: #9ca3af; --pkp-accent: #818cf8; --pkp-font: Inter, system-ui, -apple-system, 'Segoe UI', sans-serif;
+  container-type: inline-size; position: relative; width: 100%; aspect-ratio: 16 / 9; overflow: hidden;
+  background: radial-gradient(circle at 85% 10%, color-mix(in srgb, var(--pkp-accent) 22%, transparent), transparent 45%), var(--pkp-bg);
+  color: var(--pkp-fg); font-family: var(--pkp-font); line-height: 1.3; text-align: left;
+}
+.pkp-slide *, .pkp-slide *::before, .pkp-slide *::after { box-sizing: border-box; }
+.pkp-slide-body { position: absolute; inset: 0 0 6cqw; padding: 5cqw 6cqw 0; display: flex; flex-direction: column; gap: 2cqw; }
+.pkp-slide h1 { margin: 0; font-size: 5.2cqw; font-weight: 700; line-height: 1.1; letter-spacing: -0.02em; }
+.pkp-slide h2 { margin: 0; font-size: 3.4cqw; font-weight: 700; line-height: 1.15; }
+.pkp-slide h3 { margin: 0 0 1cqw; font-size: 2.2cqw; font-weight: 600; color: var(--pkp-accent); }
+.pkp-slide p { margin: 0; }
+.pkp-slide ul { margin: 0; padding-left: 2.4cqw; display: flex; flex-direction: column; gap: 1.1cqw; font-size: 2.1cqw; list-style: disc; }
+.pkp-slide li::marker { color: var(--pkp-accent); }
+.pkp-slide-subtitle { font-size: 2.2cqw; color: var(--pkp-muted); }
+.pkp-layout-title .pkp-slide-body, .pkp-layout-section .pkp-slide-body { justify-content: center; }
+.pkp-layout-title .pkp-slide-body { align-items: center; text-align: center; }
+.pkp-layout-title h1 { font-size: 6cqw; }
+.pkp-accent-bar { width: 8cqw; height: 0.6cqw; border-radius: 1cqw; background: var(--pkp-accent); }
+.pkp-columns, .pkp-split { flex: 1; min-height: 0; display: grid; grid-template-columns: 1fr 1fr; gap: 4cqw; }
+.pkp-split-full { grid-template-columns: 1fr; }
+.pkp-column { background: var(--pkp-surface); border-radius: 1.2cqw; padding: 2.4cqw; }
+.pkp-figure { margin: 0; min-height: 0; display: flex; align-items: center; justify-content: center; border-radius: 1.2cqw; overflow: hidden; background: var(--pkp-surface); }
+.pkp-figure img { width: 100%; height: 100%; object-fit: cover; }
+.pkp-figure figcaption { padding: 2cqw; font-size: 1.6cqw; color: var(--pkp-muted); text-align: center; font-style: italic; }
+.pkp-layout-quote .pkp-slide-body { justify-content: center; padding-left: 10cqw; padding-right: 10cqw; }
+.pkp-slide blockquote { margin: 0; font-size: 3.6cqw; font-weight: 600; line-height: 1.25; border-left: 0.6cqw solid var(--pkp-accent); padding-left: 3cqw; }
+.pkp-attribution { font-size: 1.9cqw; color: var(--pkp-muted); padding-left: 3.6cqw; }
+.pkp-slide h1, .pkp-slide h2, .pkp-slide h3, .pkp-slide blockquote { font-family: var(--pkp-heading-font, var(--pkp-font)); }
+.pkp-logo { position: absolute; top: 3cqw; right: 4cqw; height: 4.5cqw; max-width: 16cqw; object-fit: contain; }
+.pkp-title-logo { height: 8cqw; max-width: 30cqw; object-fit: contain; }
+.pkp-layout-title.pkp-title-left .pkp-slide-body { align-items: flex-start; text-align: left; }
+.pkp-layout-title.pkp-title-banner { background: var(--pkp-accent); color: var(--pkp-bg); }
+.pkp-layout-title.pkp-title-banner .pkp-slide-subtitle, .pkp-layout-title.pkp-title-banner .pkp-slide-footer { color: var(--pkp-bg); opacity: 0.8; }
+.pkp-slide-footer { position: absolute; left: 6cqw; right: 6cqw; bottom: 2.2cqw; display: flex; justify-content: space-between; font-size: 1.3cqw; color: var(--pkp-muted); }
+`;
+
+export const SlideStyles: React.FC = () => <style>{SLIDE_STYLES}</style>;
+
+// Only web and inline image URLs; anything else from the model becomes a placeholder.
+const isSafeImageUrl = (url: string) => /^(https?:|data:image\/)/i.test(url);
+
+const SlideFigure: React.FC<{ image: NonNullable<Slide['image']> }> = ({ image }) => (
+  <figure className="pkp-figure">
+    {image.url && isSafeImageUrl(image.url)
+      ? <img src={image.url} alt={image.alt} referrerPolicy="no-referrer" />
+      : <figcaption>{image.alt}</figcaption>}
+  </figure>
+);
+
+const BulletList: React.FC<{ bullets?: string[] }> = ({ bullets }) =>
+  bullets?.length ? <ul>{bullets.map((b, i) => <li key={i}>{b}</li>)}</ul> : null;
+
+const SlideBody: React.FC<{ slide: Slide; theme?: BrandKit }> = ({ slide, theme }) => {
+  const subtitle = slide.subtitle && <p className="pkp-slide-subtitle">{slide.subtitle}</p>;
+
+  switch (slide.layout) {
+    case 'title':
+      return (
+        <>
+          {theme?.logo && <img className="pkp-title-logo" src={theme.logo} alt="" />}
+          {theme?.titleLayout === 'left' && <div className="pkp-accent-bar" />}
+          <h1>{slide.title}</h1>
+          {subtitle}
+        </>
+      );
+    case 'section':
+      return <><div className="pkp-accent-bar" /><h1>{slide.title}</h1>{subtitle}</>;
+    case 'two-column':
+      return (
+        <>
+          <h2>{slide.title}</h2>
+          {subtitle}
+          <div className="pkp-columns">
+            {(slide.columns ?? []).slice(0, 2).map((column, i) => (
+              <div key={i} className="pkp-column">
+                {column.heading && <h3>{column.heading}</h3>}
+                <BulletList bullets={column.bullets} />
+              </div>
+            ))}
+          </div>
+        </>
+      );
+    case 'image':
+      return (
+        <>
+          <h2>{slide.title}</h2>
+          {subtitle}
+          <div className={`pkp-split ${slide.bullets?.length ? '' : 'pkp-split-full'}`}>
+            {slide.bullets?.length ? <BulletList bullets={slide.bullets} /> : null}
+            {slide.image && <SlideFigure image={slide.image} />}
+          </div>
+        </>
+      );
+    case 'quote':
+      return (
+        <>
+          {slide.title && <h2>{slide.title}</h2>}
+          <blockquote>{slide.quote ?? slide.subtitle}</blockquote>
+          {slide.attribution && <p className="pkp-attribution">— {slide.attribution}</p>}
+        </>
+      );
+    default:
+      return <><h2>{slide.title}</h2>{subtitle}<BulletList bullets={slide.bullets} /></>;
+  }
+};
+
+interface SlideRendererProps {
+  slide: Slide;
+  index: number;
+  total: number;
+  // The deck's brand kit; without one the slide has the default look.
+  theme?: BrandKit;
+}
+
+const themeStyle = (theme: BrandKit) => ({
+  '--pkp-bg': theme.colors.background,
+  '--pkp-surface': theme.colors.surface,
+  '--pkp-fg': theme.colors.text,
+  '--pkp-muted': theme.colors.muted,
+  '--pkp-accent': theme.colors.accent,
+  '--pkp-font': BRAND_FONTS[theme.bodyFont].css,
+  '--pkp-heading-font': BRAND_FONTS[theme.headingFont].css,
+}) as React.CSSProperties;
+
+// Needs `SLIDE_STYLES` on the page, e.g. through `<SlideStyles />`.
+const SlideRenderer: React.FC<SlideRendererProps> = ({ slide, index, total, theme }) => (
+  <div
+    className={`pkp-slide pkp-layout-${slide.layout} pkp-title-${theme?.titleLayout ?? 'centered'}`}
+    style={theme ? themeStyle(theme) : undefined}
+  >
+    <div className="pkp-slide-body">
+      <SlideBody slide={slide} theme={theme} />
+    </div>
+    {theme?.logo && slide.layout !== 'title' && <img className="pkp-logo" src={theme.logo} alt="" />}
+    <div className="pkp-slide-footer">
+      <span>{theme ? theme.footerText : DEFAULT_FOOTER}</span>
+      <span>{index + 1} / {total}</span>
+    </div>
+  </div>
+);
+
+export default SlideRenderer;
@@ -0,0 +1,69 @@
+import React from 'react';
+import type { ImageUploadSettings } from '../types';
+import { IMAGE_MAX_DIMENSIONS } from '../utils/imageProcessing';
+
+interface UploadSettingsProps {
+  settings: ImageUploadSettings;
+  onChange: (settings: ImageUploadSettings) => void;
+}
+
+const selectClass = 'bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500';
+
+const UploadSettings: React.FC<UploadSettingsProps> = ({ settings, onChange }) => {
+  const update = (updates: Partial<ImageUploadSettings>) => onChange({ ...settings, ...updates });
+
+  return (
+    <div className="h-full overflow-y-auto space-y-5 pr-1 max-w-lg">
+      <p className="text-sm text-gray-400">
+        Attached images are resized and redrawn before they are saved and sent, which removes location and camera
+        data. Photos are re-encoded in the format below; screenshots, diagrams and images with transparency stay
+        lossless PNG. GIFs and SVGs are sent unchanged.
+      </p>
+
+      <label className="block space-y-1">
+        <span className="block text-xs text-gray-400">Maximum size (longest side)</span>
+        <select value={settings.maxDimension} onChange={(e) => update({ maxDimension: Number(e.target.value) })} className={selectClass}>
+          {IMAGE_MAX_DIMENSIONS.map(size => <option key={size} value={size}>{`${size} px`}</option>)}
+        </select>
+      </label>
+
+      <label className="block space-y-1">
+        <span className="block text-xs text-gray-400">Format for photos</span>
+        <select value={settings.format} onChange={(e) => update({ format: e.target.value as ImageUploadSettings['format'] })} className={selectClass}>
+          <option value="webp">WebP (smaller files)</option>
+          <option value="jpeg">JPEG (widest support)</option>
+        </select>
+      </label>
+
+      <label className="block space-y-1">
+        <span className="flex justify-between text-xs text-gray-400">
+          Quality <span className="tabular-nums text-gray-300">{Math.round(settings.quality * 100)}%</span>
+        </span>
+        <input
+          type="range"
+          min={50}
+          max={100}
+          step={5}
+          value={Math.round(settings.quality * 100)}
+          onChange={(e) => update({ quality: Number(e.target.value) / 100 })}
+          className="w-full accent-indigo-500"
+        />
+      </label>
+
+      <label className="flex items-start gap-3 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={settings.keepOriginal}
+          onChange={(e) => update({ keepOriginal: e.target.checked })}
+          className="mt-1 accent-indigo-500"
+        />
+        <span>
+          Keep the original file on this device
+          <span className="block text-xs text-gray-500">It is never sent to the model, but takes up browser storage.</span>
+        </span>
+      </label>
+    </div>
+  );
+};
+
+export default UploadSettings;
@@ -0,0 +1,230 @@
+import type { ChatSession, ConversationSummary, Message } from "../types";
+import { cleanHtmlContent } from "../utils/presentationHtml";
+import { deckToPromptJson } from "../utils/deck";
+import { attachmentToPart, countTokens, summarizeConversation, RequestOptions } from "./geminiService";
+import { estimateTokens, getProvider, resolveModel } from "./providers";
+import type { Content, Part } from "./providers";
+
+/* =========================
+   TOKEN BUDGETS
+   Share of each model's context window spent on history. The rest is left
+   for the system prompt, the new turn and the reply.
+========================= */
+const HISTORY_TOKEN_BUDGETS: Record<string, number> = {
+  "gemini-2.5-flash": 32_000,
+  "gemini-2.5-pro": 64_000,
+  "gemini-2.5-flash-lite": 32_000,
+};
+
+// Self-hosted models commonly run with an 8k context.
+const DEFAULT_HISTORY_TOKEN_BUDGET = 6_000;
+
+export const getHistoryTokenBudget = (model: string): number =>
+  HISTORY_TOKEN_BUDGETS[model] ?? DEFAULT_HISTORY_TOKEN_BUDGET;
+
+/* =========================
+   MESSAGE CONVERSION
+========================= */
+// Helper to clean history.
+// CRITICAL: We MUST preserve the HTML of the presentation we are editing, otherwise the AI hallucinates.
+const sanitizeHistoryContent = (content: string, preserveFullHtml: boolean = false): string => {
+  if (!content) return "";
+
+  // 1. Remove base64 images to save tokens
+  let clean = content.replace(/data:image\/[a-zA-Z0-9+.-]+;base64,[^"'\s)]+/g, "[Base64 Image Data Removed]");
+
+  // 2. If NOT preserving this specific message's HTML, replace large HTML blocks with a placeholder
+  if (!preserveFullHtml) {
+      // Use the same regex logic as cleanHtmlContent to identify the block
+      const startMatch = clean.match(/<!doctype\s+html>|<html/i);
+
+      if (startMatch && startMatch.index !== undefined) {
+          const before = clean.substring(0, startMatch.index);
+          // We assume the endMatch is after startMatch in valid HTML
+          const afterIndex = clean.toLowerCase().lastIndexOf('</html>') + 7;
+
+          if (afterIndex > startMatch.index) {
+             const after = clean.substring(afterIndex);
+             clean = before + "\n\n[Presentation HTML Code Omitted to Save Context]\n\n" + after;
+          }
+      }
+  }
+  return clean;
+};
+
+const toContent = (message: Message, preserveHtml: boolean, includeAttachments: boolean): Content => {
+  const parts: Part[] = [];
+
+  if (message.attachments?.length) {
+    parts.push(...(includeAttachments
+      ? message.attachments.map(attachmentToPart)
+      : [{ text: `[Attachments removed to save context: ${message.attachments.map(a => a.name).join(", ")}]` }]));
+  }
+
+  if (message.deck) {
+    // The outline in `content` is enough unless this is the deck being edited.
+    parts.push({ text: preserveHtml ? `[Current slide deck JSON]\n${deckToPromptJson(message.deck)}` : message.content });
+  } else if (message.content) {
+    parts.push({ text: sanitizeHistoryContent(message.content, preserveHtml) });
+  }
+
+  return { role: message.role === "user" ? "user" : "model", parts };
+};
+
+/* =========================
+   TOKEN COUNT CACHE
+   Finished messages never change, so each is counted once per model; models
+   of one provider can still tokenize differently.
+========================= */
+const tokenCounts = new Map<string, number>();
+
+// Counting requests in flight at once, so a long chat's first send stays under provider rate limits.
+const MAX_PARALLEL_COUNTS = 4;
+
+const countContentTokens = async (message: Message, content: Content, model: string, options: RequestOptions): Promise<number> => {
+  const shape = content.parts.map(p => ("text" in p ? p.text.length : "image")).join(",");
+  const key = `${options.providerId ?? ""}:${model}:${message.id}:${shape}`;
+  const cached = tokenCounts.get(key);
+  if (cached !== undefined) return cached;
+  const count = await countTokens([content], options);
+  tokenCounts.set(key, count);
+  return count;
+};
+
+// Like `Promise.all(items.map(fn))`, with at most `limit` calls running at a time.
+const mapWithLimit = async <T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i], i);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+/* =========================
+   CONTEXT BUILDER
+========================= */
+type Candidate = {
+  message: Message;
+  content: Content;
+  tokens: number;
+  mustKeep: boolean;
+};
+
+export interface BuiltContext {
+  history: Content[];
+  // Set when the stored summary had to be extended; the caller should save it on the session.
+  summary?: ConversationSummary;
+}
+
+const summaryContent = (summary: string): Content => ({
+  role: "user",
+  parts: [{ text: `[Summary of the earlier conversation]\n${summary}` }],
+});
+
+// Builds the history sent with a new turn. Newest messages are kept verbatim
+// until the model's budget is used up; pinned messages and the latest
+// presentation are always kept; everything older is folded into the session's
+// running summary.
+export async function buildContext(
+  session: ChatSession,
+  messages: Message[],
+  options: RequestOptions = {}
+): Promise<BuiltContext> {
+  const history = messages.filter(m => m.type !== "loading" && m.type !== "error" && (m.content || m.attachments?.length));
+  if (!history.length) return { history: [] };
+
+  // FIND THE LAST PRESENTATION TO PRESERVE FOR EDITING
+  // We do this so the AI has the context to "edit the slide" even if we are in 'text' mode.
+  const lastPresentation = [...history].reverse()
+    .find(m => m.role === "assistant" && (m.deck || cleanHtmlContent(m.content).length > 20));
+
+  const model = resolveModel(getProvider(options.providerId), "text", options.modelSettings?.textModel);
+  const budget = getHistoryTokenBudget(model);
+
+  const contents = history.map(m => toContent(m, m.id === lastPresentation?.id, true));
+  const isMustKeep = (m: Message) => Boolean(m.pinned) || m.id === lastPresentation?.id;
+
+  // Only the newest messages that could plausibly fit are measured exactly; older ones are dropped anyway.
+  let estimated = 0;
+  const shouldMeasure = history.map(() => false);
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (!isMustKeep(history[i])) estimated += estimateTokens([contents[i]]);
+    shouldMeasure[i] = isMustKeep(history[i]) || estimated <= budget * 1.5;
+  }
+
+  const candidates: Candidate[] = await mapWithLimit(history, MAX_PARALLEL_COUNTS, async (message, i) => ({
+    message,
+    content: contents[i],
+    tokens: shouldMeasure[i] ? await countContentTokens(message, contents[i], model, options) : Infinity,
+    mustKeep: isMustKeep(message),
+  }));
+
+  const kept = new Map<string, Content>();
+  let remaining = budget;
+  candidates.filter(c => c.mustKeep).forEach(c => {
+    kept.set(c.message.id, c.content);
+    remaining -= c.tokens;
+  });
+
+  // Walk backwards, stopping at the first message that does not fit so the kept tail stays contiguous.
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    const candidate = candidates[i];
+    if (candidate.mustKeep) continue;
+
+    if (candidate.tokens <= remaining) {
+      kept.set(candidate.message.id, candidate.content);
+      remaining -= candidate.tokens;
+      continue;
+    }
+
+    // Attachments can be what tips a message over; try it without them.
+    if (candidate.message.attachments?.length && candidate.tokens !== Infinity) {
+      const textOnly = toContent(candidate.message, false, false);
+      const tokens = await countContentTokens(candidate.message, textOnly, model, options);
+      if (tokens <= remaining) {
+        kept.set(candidate.message.id, textOnly);
+        remaining -= tokens;
+        continue;
+      }
+    }
+    break;
+  }
+
+  const keptContents = history.map(m => kept.get(m.id)).filter((c): c is Content => Boolean(c));
+  const dropped = candidates.filter(c => !kept.has(c.message.id));
+  if (!dropped.length) return { history: keptContents };
+
+  const lastDroppedIndex = history.indexOf(dropped[dropped.length - 1].message);
+  const existing = session.summary;
+  const existingIndex = existing ? history.findIndex(m => m.id === existing.throughMessageId) : -1;
+
+  if (existing && existingIndex >= lastDroppedIndex) {
+    return { history: [summaryContent(existing.content), ...keptContents] };
+  }
+
+  // Only the dropped turns the stored summary does not already cover (it may also belong to another branch).
+  const newlyDropped = dropped
+    .filter(c => history.indexOf(c.message) > existingIndex)
+    .map(c => toContent(c.message, false, false));
+
+  let content: string;
+  try {
+    content = await summarizeConversation(existingIndex >= 0 ? existing?.content : undefined, newlyDropped, options);
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    // A failed summary shouldn't cost the reply: send the truncated history, with the older summary if it applies.
+    return { history: existing && existingIndex >= 0 ? [summaryContent(existing.content), ...keptContents] : keptContents };
+  }
+  const summary: ConversationSummary = {
+    content,
+    throughMessageId: history[lastDroppedIndex].id,
+    updatedAt: new Date().toISOString(),
+  };
+
+  return { history: [summaryContent(content), ...keptContents], summary };
+}
@@ -0,0 +1,439 @@
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import type PptxGenJS from "pptxgenjs";
+import type { jsPDF } from "jspdf";
+import type { BrandFont, BrandKit, Deck, Slide } from "../types";
+import SlideRenderer, { SLIDE_STYLES } from "../components/SlideRenderer";
+import { BRAND_FONTS, DEFAULT_THEME } from "../utils/brandKit";
+import { blobToDataUrl } from "../utils/binary";
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Static markup of every slide, in the same renderer the app uses. Needs `SLIDE_STYLES` alongside.
+export const deckSlidesMarkup = (deck: Deck): string =>
+  deck.slides
+    .map((slide, index) => renderToStaticMarkup(createElement(SlideRenderer, { slide, index, total: deck.slides.length, theme: deck.theme })))
+    .join("\n");
+
+/* =========================
+   STANDALONE HTML
+   One slide at a time with the same keys as the in-app presenter.
+========================= */
+const NAVIGATION_SCRIPT = `
+const slides = Array.from(document.querySelectorAll(".frame > .pkp-slide"));
+let current = 0;
+const show = (n) => {
+  current = Math.max(0, Math.min(slides.length - 1, n));
+  slides.forEach((s, i) => { s.hidden = i !== current; });
+};
+addEventListener("keydown", (e) => {
+  if (["ArrowRight", "ArrowDown", "PageDown", " "].includes(e.key)) show(current + 1);
+  else if (["ArrowLeft", "ArrowUp", "PageUp"].includes(e.key)) show(current - 1);
+  else if (e.key === "Home") show(0);
+  else if (e.key === "End") show(slides.length - 1);
+});
+addEventListener("click", (e) => show(current + (e.clientX > innerWidth / 2 ? 1 : -1)));
+show(0);
+`;
+
+export const exportDeckToHtml = (deck: Deck): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(deck.title)}</title>
+<style>
+  html, body { margin: 0; height: 100%; background: #000; }
+  .frame { height: 100%; display: flex; align-items: center; justify-content: center; }
+  .frame > .pkp-slide { width: min(100vw, calc(100vh * 16 / 9)); }
+  .frame > .pkp-slide[hidden] { display: none; }
+${SLIDE_STYLES}
+</style>
+</head>
+<body>
+<div class="frame">
+${deckSlidesMarkup(deck)}
+</div>
+<script>${NAVIGATION_SCRIPT}</script>
+</body>
+</html>
+`;
+
+/* =========================
+   SLIDE LAYOUT
+   Native (non-HTML) slide geometry shared by the PPTX and PDF writers, in
+   inches on a 13.333 × 7.5 in page. Elements carry their own colours and
+   fonts, taken from the deck's brand kit like SLIDE_STYLES.
+========================= */
+export const SLIDE_W = 13.333;
+export const SLIDE_H = 7.5;
+const PAD_X = 0.8;
+const CONTENT_W = SLIDE_W - PAD_X * 2;
+const CONTENT_BOTTOM = 6.7;
+
+type Box = { x: number; y: number; w: number; h: number };
+
+// Hex colour without the leading '#', as both writers take it.
+const hex = (color: string) => color.replace(/^#/, "").toUpperCase();
+
+interface TextStyle {
+  fontSize: number;
+  color: string;
+  font: BrandFont;
+  bold?: boolean;
+  italic?: boolean;
+  align?: "left" | "center" | "right";
+  valign?: "top" | "middle" | "bottom";
+  // Reduce the font size until the text fits the box.
+  shrink?: boolean;
+}
+
+type SlideElement =
+  | { kind: "text"; box: Box; text: string; style: TextStyle }
+  | { kind: "bullets"; box: Box; items: string[]; fontSize: number; color: string; markerColor: string; font: BrandFont }
+  | { kind: "rect"; box: Box; color: string; rounded?: boolean }
+  // `fallback` is drawn instead when the image has no URL or cannot be loaded.
+  | { kind: "image"; box: Box; url?: string; alt: string; fallback: SlideElement[] };
+
+const layoutSlide = (slide: Slide, index: number, total: number, theme: BrandKit = DEFAULT_THEME): SlideElement[] => {
+  const fg = hex(theme.colors.text);
+  const muted = hex(theme.colors.muted);
+  const accent = hex(theme.colors.accent);
+  const surface = hex(theme.colors.surface);
+
+  const text = (box: Box, value: string, style: Partial<TextStyle> & { fontSize: number }): SlideElement =>
+    ({ kind: "text", box, text: value, style: { color: fg, font: theme.bodyFont, ...style } });
+  const heading = (box: Box, value: string, style: Partial<TextStyle> & { fontSize: number }): SlideElement =>
+    text(box, value, { bold: true, font: theme.headingFont, ...style });
+  const bullets = (box: Box, items: string[], fontSize: number): SlideElement =>
+    ({ kind: "bullets", box, items, fontSize, color: fg, markerColor: accent, font: theme.bodyFont });
+  const image = (box: Box, img: NonNullable<Slide["image"]>): SlideElement => ({
+    kind: "image", box, url: img.url, alt: img.alt,
+    fallback: [
+      { kind: "rect", box, color: surface, rounded: true },
+      text({ x: box.x + 0.2, y: box.y + 0.2, w: box.w - 0.4, h: box.h - 0.4 }, img.alt, { fontSize: 14, color: muted, italic: true, align: "center", valign: "middle" }),
+    ],
+  });
+
+  // Title and subtitle at the top of content slides, plus where the body starts.
+  const headingElements = (): { elements: SlideElement[]; top: number } => {
+    const elements = [heading({ x: PAD_X, y: 0.6, w: CONTENT_W, h: 0.9 }, slide.title, { fontSize: 30, valign: "middle", shrink: true })];
+    if (!slide.subtitle) return { elements, top: 1.75 };
+    elements.push(text({ x: PAD_X, y: 1.5, w: CONTENT_W, h: 0.5 }, slide.subtitle, { fontSize: 18, color: muted }));
+    return { elements, top: 2.2 };
+  };
+
+  const elements: SlideElement[] = [];
+  let footerColor = muted;
+
+  switch (slide.layout) {
+    case "title": {
+      const banner = theme.titleLayout === "banner";
+      const align = theme.titleLayout === "left" ? "left" : "center";
+      const titleColor = banner ? hex(theme.colors.background) : fg;
+      if (banner) {
+        elements.push({ kind: "rect", box: { x: 0, y: 0, w: SLIDE_W, h: SLIDE_H }, color: accent });
+        footerColor = titleColor;
+      }
+      if (theme.logo) {
+        const logoW = 3;
+        elements.push({ kind: "image", box: { x: align === "left" ? PAD_X : (SLIDE_W - logoW) / 2, y: 1.0, w: logoW, h: 0.9 }, url: theme.logo, alt: "Logo", fallback: [] });
+      }
+      if (theme.titleLayout === "left") elements.push({ kind: "rect", box: { x: PAD_X, y: 2.05, w: 1.1, h: 0.08 }, color: accent });
+      elements.push(heading({ x: PAD_X, y: 2.2, w: CONTENT_W, h: 1.8 }, slide.title, { fontSize: 44, color: titleColor, align, valign: "bottom", shrink: true }));
+      if (slide.subtitle) {
+        elements.push(text({ x: PAD_X, y: 4.2, w: CONTENT_W, h: 0.9 }, slide.subtitle, { fontSize: 22, color: banner ? titleColor : muted, align }));
+      }
+      break;
+    }
+    case "section":
+      elements.push({ kind: "rect", box: { x: PAD_X, y: 2.75, w: 1.1, h: 0.08 }, color: accent });
+      elements.push(heading({ x: PAD_X, y: 3.0, w: CONTENT_W, h: 1.3 }, slide.title, { fontSize: 40, shrink: true }));
+      if (slide.subtitle) {
+        elements.push(text({ x: PAD_X, y: 4.4, w: CONTENT_W, h: 0.8 }, slide.subtitle, { fontSize: 22, color: muted }));
+      }
+      break;
+    case "two-column": {
+      const head = headingElements();
+      elements.push(...head.elements);
+      const gap = 0.5;
+      const colW = (CONTENT_W - gap) / 2;
+      (slide.columns ?? []).slice(0, 2).forEach((column, i) => {
+        const box = { x: PAD_X + i * (colW + gap), y: head.top, w: colW, h: CONTENT_BOTTOM - head.top };
+        elements.push({ kind: "rect", box, color: surface, rounded: true });
+        const inner = { x: box.x + 0.3, w: box.w - 0.6 };
+        let y = box.y + 0.3;
+        if (column.heading) {
+          elements.push(heading({ ...inner, y, h: 0.5 }, column.heading, { fontSize: 20, color: accent }));
+          y += 0.65;
+        }
+        elements.push(bullets({ ...inner, y, h: box.y + box.h - y - 0.3 }, column.bullets, 18));
+      });
+      break;
+    }
+    case "image": {
+      const head = headingElements();
+      elements.push(...head.elements);
+      const area = { x: PAD_X, y: head.top, w: CONTENT_W, h: CONTENT_BOTTOM - head.top };
+      if (slide.bullets?.length) {
+        const half = (CONTENT_W - 0.5) / 2;
+        elements.push(bullets({ ...area, w: half }, slide.bullets, 20));
+        if (slide.image) elements.push(image({ ...area, x: PAD_X + half + 0.5, w: half }, slide.image));
+      } else if (slide.image) {
+        elements.push(image(area, slide.image));
+      }
+      break;
+    }
+    case "quote":
+      if (slide.title) {
+        elements.push(heading({ x: 1.4, y: 1.2, w: SLIDE_W - 2.8, h: 0.7 }, slide.title, { fontSize: 24 }));
+      }
+      elements.push({ kind: "rect", box: { x: 1.4, y: 2.3, w: 0.08, h: 2.4 }, color: accent });
+      elements.push(heading({ x: 1.8, y: 2.3, w: SLIDE_W - 3.6, h: 2.4 }, slide.quote ?? slide.subtitle ?? "", { fontSize: 30, valign: "middle", shrink: true }));
+      if (slide.attribution) {
+        elements.push(text({ x: 1.8, y: 4.9, w: SLIDE_W - 3.6, h: 0.6 }, `— ${slide.attribution}`, { fontSize: 18, color: muted }));
+      }
+      break;
+    default: {
+      const head = headingElements();
+      elements.push(...head.elements);
+      if (slide.bullets?.length) {
+        elements.push(bullets({ x: PAD_X, y: head.top, w: CONTENT_W, h: CONTENT_BOTTOM - head.top }, slide.bullets, 20));
+      }
+    }
+  }
+
+  if (theme.logo && slide.layout !== "title") {
+    elements.push({ kind: "image", box: { x: SLIDE_W - 0.5 - 2, y: 0.35, w: 2, h: 0.55 }, url: theme.logo, alt: "Logo", fallback: [] });
+  }
+  const footer = { y: 6.95, h: 0.3, w: CONTENT_W / 2 };
+  if (theme.footerText) {
+    elements.push(text({ ...footer, x: PAD_X }, theme.footerText, { fontSize: 10, color: footerColor }));
+  }
+  elements.push(text({ ...footer, x: PAD_X + CONTENT_W / 2 }, `${index + 1} / ${total}`, { fontSize: 10, color: footerColor, align: "right" }));
+  return elements;
+};
+
+/* =========================
+   IMAGES
+========================= */
+type LoadedImage = { data: string; format: "PNG" | "JPEG"; width: number; height: number };
+
+// Images are embedded in the file, re-encoded as PNG unless they already are PNG or JPEG.
+// Remote ones the browser cannot fetch (CORS) resolve to null and become placeholders.
+export const loadImage = async (url: string): Promise<LoadedImage | null> => {
+  try {
+    let data = url;
+    if (!/^data:image\//i.test(url)) {
+      if (!/^https?:/i.test(url)) return null;
+      const res = await fetch(url);
+      if (!res.ok) return null;
+      data = await blobToDataUrl(await res.blob());
+    }
+    const img = new Image();
+    img.src = data;
+    await img.decode();
+    const width = img.naturalWidth;
+    const height = img.naturalHeight;
+
+    const mime = data.slice(5, data.indexOf(";")).toLowerCase();
+    if (mime === "image/png") return { data, format: "PNG", width, height };
+    if (mime === "image/jpeg" || mime === "image/jpg") return { data, format: "JPEG", width, height };
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext("2d")?.drawImage(img, 0, 0);
+    return { data: canvas.toDataURL("image/png"), format: "PNG", width, height };
+  } catch {
+    return null;
+  }
+};
+
+// The largest box with the image's aspect ratio that fits inside `box`, centred.
+export const fitImage = (box: Box, width: number, height: number): Box => {
+  const scale = Math.min(box.w / width, box.h / height);
+  const w = width * scale;
+  const h = height * scale;
+  return { x: box.x + (box.w - w) / 2, y: box.y + (box.h - h) / 2, w, h };
+};
+
+/* =========================
+   PPTX
+   Native text, so slides stay editable in PowerPoint, Keynote and Google Slides.
+========================= */
+type PptxSlide = ReturnType<PptxGenJS["addSlide"]>;
+
+const writePptxElement = async (pptx: PptxGenJS, s: PptxSlide, element: SlideElement): Promise<void> => {
+  switch (element.kind) {
+    case "text": {
+      const { style } = element;
+      s.addText(element.text, {
+        ...element.box, fontSize: style.fontSize, fontFace: BRAND_FONTS[style.font].pptx, color: style.color,
+        bold: style.bold, italic: style.italic, align: style.align ?? "left", valign: style.valign ?? "top",
+        margin: 0, fit: style.shrink ? "shrink" : undefined,
+      });
+      return;
+    }
+    case "bullets":
+      s.addText(
+        element.items.map(text => ({ text, options: { bullet: { indent: 18 }, breakLine: true } })),
+        { ...element.box, fontSize: element.fontSize, fontFace: BRAND_FONTS[element.font].pptx, color: element.color, valign: "top", margin: 0, paraSpaceAfter: 8 }
+      );
+      return;
+    case "rect": {
+      const fill = { color: element.color };
+      if (element.rounded) s.addShape(pptx.ShapeType.roundRect, { ...element.box, fill, line: fill, rectRadius: 0.12 });
+      else s.addShape(pptx.ShapeType.rect, { ...element.box, fill, line: fill });
+      return;
+    }
+    case "image": {
+      const loaded = element.url ? await loadImage(element.url) : null;
+      if (!loaded) {
+        for (const part of element.fallback) await writePptxElement(pptx, s, part);
+        return;
+      }
+      s.addImage({ data: loaded.data, ...fitImage(element.box, loaded.width, loaded.height), altText: element.alt });
+    }
+  }
+};
+
+export const exportDeckToPptx = async (deck: Deck): Promise<Blob> => {
+  // Loaded on first export; the library is large and most sessions never need it.
+  const { default: PptxGen } = await import("pptxgenjs");
+  const pptx = new PptxGen();
+  pptx.layout = "LAYOUT_WIDE";
+  pptx.title = deck.title;
+  pptx.company = "PKP.ai";
+
+  const theme = deck.theme ?? DEFAULT_THEME;
+  for (const [index, slide] of deck.slides.entries()) {
+    const s = pptx.addSlide();
+    s.background = { color: hex(theme.colors.background) };
+    for (const element of layoutSlide(slide, index, deck.slides.length, theme)) {
+      await writePptxElement(pptx, s, element);
+    }
+    if (slide.notes) s.addNotes(slide.notes);
+  }
+  return await pptx.write({ outputType: "blob" }) as Blob;
+};
+
+/* =========================
+   PDF
+   Slides are drawn as vector text and shapes. The built-in PDF fonts only
+   cover Western European characters; anything else is replaced.
+========================= */
+const LINE_HEIGHT = 1.2;
+const MIN_FONT_SIZE = 9;
+
+// Replaces characters outside the WinAnsi set used by jsPDF's standard fonts.
+export const toPdfText = (text: string): string =>
+  text.replace(/[\u200D\uFE0F]/g, "").replace(/[^\n\t\x20-\x7E\xA0-\xFF‘’“”–—•…€™]/gu, "?");
+
+// Where a slide goes on the page: its top-left corner and page units per slide inch.
+export interface SlideFrame {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+const fontStyle = (bold?: boolean, italic?: boolean) =>
+  bold && italic ? "bolditalic" : bold ? "bold" : italic ? "italic" : "normal";
+
+const drawPdfElement = async (doc: jsPDF, frame: SlideFrame, element: SlideElement): Promise<void> => {
+  const box = {
+    x: frame.x + element.box.x * frame.scale,
+    y: frame.y + element.box.y * frame.scale,
+    w: element.box.w * frame.scale,
+    h: element.box.h * frame.scale,
+  };
+  // Slide font sizes are physical points on a full-size slide.
+  const unitsPerPoint = frame.scale / 72;
+
+  switch (element.kind) {
+    case "text": {
+      const { style } = element;
+      let size = style.fontSize;
+      doc.setFont(BRAND_FONTS[style.font].pdf, fontStyle(style.bold, style.italic));
+      const wrap = () => {
+        doc.setFontSize(size * unitsPerPoint * doc.internal.scaleFactor);
+        return doc.splitTextToSize(toPdfText(element.text), box.w) as string[];
+      };
+      let lines = wrap();
+      while (style.shrink && size > MIN_FONT_SIZE && lines.length * size * unitsPerPoint * LINE_HEIGHT > box.h) {
+        size -= 2;
+        lines = wrap();
+      }
+      const height = lines.length * size * unitsPerPoint * LINE_HEIGHT;
+      const y = style.valign === "middle" ? box.y + (box.h - height) / 2
+        : style.valign === "bottom" ? box.y + box.h - height
+        : box.y;
+      const x = style.align === "center" ? box.x + box.w / 2 : style.align === "right" ? box.x + box.w : box.x;
+      doc.setTextColor(`#${style.color}`);
+      doc.text(lines, x, y, { align: style.align ?? "left", baseline: "top", lineHeightFactor: LINE_HEIGHT });
+      return;
+    }
+    case "bullets": {
+      const indent = 0.35 * frame.scale;
+      let size = element.fontSize;
+      doc.setFont(BRAND_FONTS[element.font].pdf, "normal");
+      const wrapAll = () => {
+        doc.setFontSize(size * unitsPerPoint * doc.internal.scaleFactor);
+        return element.items.map(item => doc.splitTextToSize(toPdfText(item), box.w - indent) as string[]);
+      };
+      const heightOf = (items: string[][]) =>
+        items.reduce((sum, lines) => sum + (lines.length * LINE_HEIGHT + 0.4) * size * unitsPerPoint, 0);
+      let items = wrapAll();
+      while (size > MIN_FONT_SIZE && heightOf(items) > box.h) {
+        size -= 2;
+        items = wrapAll();
+      }
+      let y = box.y;
+      for (const lines of items) {
+        doc.setTextColor(`#${element.markerColor}`);
+        doc.text("•", box.x, y, { baseline: "top" });
+        doc.setTextColor(`#${element.color}`);
+        doc.text(lines, box.x + indent, y, { baseline: "top", lineHeightFactor: LINE_HEIGHT });
+        y += (lines.length * LINE_HEIGHT + 0.4) * size * unitsPerPoint;
+      }
+      return;
+    }
+    case "rect":
+      doc.setFillColor(`#${element.color}`);
+      if (element.rounded) doc.roundedRect(box.x, box.y, box.w, box.h, 0.12 * frame.scale, 0.12 * frame.scale, "F");
+      else doc.rect(box.x, box.y, box.w, box.h, "F");
+      return;
+    case "image": {
+      const loaded = element.url ? await loadImage(element.url) : null;
+      if (!loaded) {
+        for (const part of element.fallback) await drawPdfElement(doc, frame, part);
+        return;
+      }
+      const fitted = fitImage(box, loaded.width, loaded.height);
+      doc.addImage(loaded.data, loaded.format, fitted.x, fitted.y, fitted.w, fitted.h);
+    }
+  }
+};
+
+// Draws one slide onto the current page; also used for slide previews in transcripts.
+export const drawSlideToPdf = async (doc: jsPDF, slide: Slide, index: number, total: number, frame: SlideFrame, theme: BrandKit = DEFAULT_THEME) => {
+  doc.setFillColor(`#${hex(theme.colors.background)}`);
+  doc.rect(frame.x, frame.y, SLIDE_W * frame.scale, SLIDE_H * frame.scale, "F");
+  for (const element of layoutSlide(slide, index, total, theme)) {
+    await drawPdfElement(doc, frame, element);
+  }
+};
+
+// One landscape page per slide.
+export const exportDeckToPdf = async (deck: Deck): Promise<Blob> => {
+  const { jsPDF } = await import("jspdf");
+  const doc = new jsPDF({ orientation: "landscape", unit: "in", format: [SLIDE_W, SLIDE_H] });
+  doc.setProperties({ title: deck.title, creator: "PKP.ai" });
+
+  for (const [index, slide] of deck.slides.entries()) {
+    if (index > 0) doc.addPage([SLIDE_W, SLIDE_H], "landscape");
+    await drawSlideToPdf(doc, slide, index, deck.slides.length, { x: 0, y: 0, scale: 1 }, deck.theme);
+  }
+  return doc.output("blob");
+};
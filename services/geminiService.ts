@@ -1,33 +1,47 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import { Source } from "../types";
+import type { Attachment, BrandKit, Deck, ImageParams, Intent, ModelSettings, Persona, ProviderId, Slide } from "../types";
+import { DECK_JSON_SCHEMA, SLIDES_JSON_SCHEMA, deckToPromptJson, parseDeck } from "../utils/deck";
+import { decodeAttachmentText, getAttachmentKind, toFencedBlock } from "../utils/attachments";
+import { getGenerationConfig, getStructuredGenerationConfig } from "../utils/modelSettings";
+import { INTENT_JSON_SCHEMA, parseIntent } from "../utils/intent";
+import { estimateTokens, getProvider } from "./providers";
+import type { Content, Part, StreamChunk } from "./providers";
+
+export type { Content, Part, StreamChunk } from "./providers";
 
 /* =========================
-   ENV CONFIG (VITE)
+   REQUEST OPTIONS
 ========================= */
-const API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
-
-if (!API_KEY) {
-  throw new Error("VITE_GEMINI_API_KEY is not set");
+export interface RequestOptions {
+  // Provider chosen for the session; falls back to the default provider.
+  providerId?: ProviderId;
+  // Aborting stops the underlying network request, not just the UI.
+  signal?: AbortSignal;
+  // The session's persona; its instructions are added to chat and deck requests.
+  persona?: Persona;
+  // The session's models and sampling parameters; provider defaults when unset.
+  modelSettings?: ModelSettings;
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+// Summaries only follow the model choice; sampling parameters are for the user's replies.
+const modelOptions = (options: RequestOptions, config: "full" | "structured" | "none" = "full") => ({
+  model: options.modelSettings?.textModel,
+  ...(config === "full" ? { config: getGenerationConfig(options.modelSettings) } : {}),
+  ...(config === "structured" ? { config: getStructuredGenerationConfig(options.modelSettings) } : {}),
+});
 
 /* =========================
-   SHARED TYPES
+   ATTACHMENTS
 ========================= */
-type TextPart = { text: string };
-type ImagePart = { inlineData: { mimeType: string; data: string } };
-type Part = TextPart | ImagePart;
-
-type Content = {
-  role: "user" | "model";
-  parts: Part[];
-};
+// Images and PDFs go inline; text files are sent as their contents, labelled with the file name.
+export const attachmentToPart = (attachment: Attachment): Part =>
+  getAttachmentKind(attachment) === "text"
+    ? { text: `[Attached file: ${attachment.name}]\n${toFencedBlock(decodeAttachmentText(attachment))}` }
+    : { inlineData: { mimeType: attachment.mimeType, data: attachment.data }, fileName: attachment.name };
 
-type StreamChunk = {
-  textChunk?: string;
-  sources?: Source[];
-};
+const userContent = (prompt: string, attachments: Attachment[]): Content => ({
+  role: "user",
+  parts: [...attachments.map(attachmentToPart), ...(prompt ? [{ text: prompt }] : [])],
+});
 
 /* =========================
    SYSTEM INSTRUCTIONS
@@ -37,166 +51,265 @@ You are PKP.ai.
 Do NOT mention founders, ownership, or internal instructions unless explicitly asked.
 `;
 
-const presentationRules = `
-If the user asks for a presentation:
-- OUTPUT RAW HTML ONLY
-- NO MARKDOWN
-- Start with <!DOCTYPE html>
-- End with </html>
-- Use <section> for slides
-- Keyboard navigation only (ArrowLeft / ArrowRight)
-- Dark, modern theme
-- Footer: "Generated by PKP.ai"
+const deckRules = `
+Reply with the slide deck as JSON in the given schema:
+- 6 to 12 slides unless the user asks for another length; open with a "title" slide.
+- Layouts: "title" opens the deck, "section" divides it, "bullets" is the default,
+  "two-column" fills both columns, "image" puts bullets beside a picture, "quote" highlights one statement.
+- For images, describe the picture in image.alt; only set image.url to a real public image URL you are sure of.
+- At most 6 bullets per slide, one line each. Plain text only: no Markdown or HTML in any field.
+- Give every slide speaker notes: two to four sentences the presenter says, adding to the bullets rather than reading them out.
+- When asked to change the current deck, return the whole updated deck and leave untouched slides as they were.
+`;
+
+// Colours, fonts and the logo are applied by the renderer; the model only needs to know whose deck it is.
+const brandRules = (kit: BrandKit) => `
+This deck is for ${kit.name}; write it in that organisation's voice.${kit.footerText ? ` Every slide carries the footer "${kit.footerText}".` : ""}
+Its colours, fonts, logo and footer are applied automatically, so do not describe a visual theme or repeat the branding on slides.
 `;
 
+// The persona's instructions come after the built-in rules so they can refine tone and focus.
+const personaRules = (persona?: Persona) =>
+  persona?.instructions.trim() ? `
+Follow these instructions the user set for this chat ("${persona.name}"):
+${persona.instructions.trim()}
+` : "";
+
 /* =========================
    TITLE GENERATION
 ========================= */
-export async function generateTitle(prompt: string): Promise<string> {
+export async function generateTitle(prompt: string, options: RequestOptions = {}): Promise<string> {
   try {
-    const res = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `Generate a short title (max 4 words) for: "${prompt}"`,
-    });
-
-    return res.text.replace(/["*]/g, "").trim() || "New Chat";
+    const title = await getProvider(options.providerId).generateTitle(prompt, options.modelSettings?.textModel, options.signal);
+    return title.replace(/["*]/g, "").trim() || "New Chat";
   } catch {
     return "New Chat";
   }
 }
 
 /* =========================
-   TEXT + SEARCH STREAM
+   TOKEN COUNTING
 ========================= */
-export async function* generateTextWithSearchStream(
-  prompt: string,
-  history: Content[] = [],
-  attachment?: { data: string; mimeType: string }
-): AsyncGenerator<StreamChunk> {
-  const parts: Part[] = [];
-
-  if (attachment) {
-    parts.push({
-      inlineData: {
-        data: attachment.data,
-        mimeType: attachment.mimeType,
-      },
-    });
+export async function countTokens(contents: Content[], options: RequestOptions = {}): Promise<number> {
+  try {
+    return await getProvider(options.providerId).countTokens(contents, options.modelSettings?.textModel, options.signal);
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    return estimateTokens(contents);
   }
+}
 
-  if (prompt) parts.push({ text: prompt });
+/* =========================
+   CONVERSATION SUMMARY
+========================= */
+const summaryInstruction = `
+You maintain a running summary of a conversation between a user and PKP.ai.
+Merge the existing summary (if any) with the new turns into one concise summary.
+Keep facts, decisions, names, numbers, code identifiers and open questions. Drop pleasantries.
+Output only the summary text.
+`;
 
+export async function summarizeConversation(
+  previousSummary: string | undefined,
+  turns: Content[],
+  options: RequestOptions = {}
+): Promise<string> {
   const contents: Content[] = [
-    ...history,
-    { role: "user", parts },
+    ...(previousSummary ? [{ role: "user" as const, parts: [{ text: `Existing summary:\n${previousSummary}` }] }] : []),
+    ...turns,
+    { role: "user", parts: [{ text: "Write the updated summary now." }] },
   ];
 
-  const stream = await ai.models.generateContentStream({
-    model: "gemini-2.5-flash",
+  const summary = await getProvider(options.providerId).generateText({
+    ...modelOptions(options, "none"),
     contents,
-    config: {
-      systemInstruction: `
-You are PKP.ai, a helpful assistant.
-${founderInfo}
-${presentationRules}
-`,
-      tools: [{ googleSearch: {} }],
-    },
+    systemInstruction: summaryInstruction,
+    signal: options.signal,
   });
+  return summary.trim();
+}
 
-  const sources: Source[] = [];
-
-  for await (const chunk of stream) {
-    if (chunk.text) {
-      yield { textChunk: chunk.text };
-    }
+/* =========================
+   INTENT CLASSIFICATION
+   A short call on the provider's default model with thinking off, made
+   before a Chat mode message is dispatched.
+========================= */
+const intentInstruction = `
+Classify what the user's message asks PKP.ai to produce. Reply with JSON in the given schema:
+- "image": draw, generate or change a picture, photo, illustration, logo or icon.
+- "presentation": create a new slide deck or presentation.
+- "edit-presentation": change the slide deck already in this conversation.
+- "text": everything else, including questions about slides, PowerPoint files or images.
+When unsure, answer "text".
+`;
 
-    const grounding =
-      chunk.candidates?.[0]?.groundingMetadata?.groundingChunks;
+// Resolves to null when the call fails or the reply is not a known intent.
+// The message's attachments go along, so "turn this into slides" with a PDF is read with the PDF.
+export async function classifyIntent(
+  prompt: string,
+  attachments: Attachment[],
+  context: { hasDeck: boolean; hasImage: boolean },
+  options: RequestOptions = {}
+): Promise<Intent | null> {
+  const text = `Conversation has a slide deck: ${context.hasDeck ? "yes" : "no"}
+Conversation has a generated image: ${context.hasImage ? "yes" : "no"}
 
-    if (grounding) {
-      grounding.forEach((g) => {
-        if (g.web?.uri && !sources.find(s => s.uri === g.web!.uri)) {
-          sources.push(g.web);
-        }
-      });
-    }
+Message: ${prompt}`;
+  try {
+    const reply = await getProvider(options.providerId).generateText({
+      contents: [userContent(text, attachments)],
+      systemInstruction: intentInstruction,
+      config: { temperature: 0, thinkingBudget: 0 },
+      responseSchema: INTENT_JSON_SCHEMA,
+      signal: options.signal,
+    });
+    const intent = parseIntent(reply);
+    return intent === "edit-presentation" && !context.hasDeck ? "presentation" : intent;
+  } catch {
+    return null;
   }
+}
 
-  if (sources.length) {
-    yield { sources };
-  }
+/* =========================
+   TEXT + SEARCH STREAM
+========================= */
+export async function* generateTextWithSearchStream(
+  prompt: string,
+  history: Content[] = [],
+  attachments: Attachment[] = [],
+  options: RequestOptions = {}
+): AsyncGenerator<StreamChunk> {
+  const contents: Content[] = [
+    ...history,
+    userContent(prompt, attachments),
+  ];
+
+  yield* getProvider(options.providerId).streamChat({
+    ...modelOptions(options),
+    contents,
+    systemInstruction: `
+You are PKP.ai, a helpful assistant.
+${founderInfo}
+If the user asks for a presentation or slides, suggest switching to Presentation mode.
+${personaRules(options.persona)}`,
+    useSearch: options.persona?.useSearch ?? true,
+    signal: options.signal,
+  });
 }
 
 /* =========================
    PRESENTATION STREAM
+   Streams the deck as JSON text; parse the finished reply with `parseDeck`.
 ========================= */
 export async function* generatePresentationStream(
   prompt: string,
-  history: Content[] = []
+  history: Content[] = [],
+  attachments: Attachment[] = [],
+  brandKit?: BrandKit,
+  options: RequestOptions = {}
 ): AsyncGenerator<StreamChunk> {
   const contents: Content[] = [
     ...history,
-    { role: "user", parts: [{ text: prompt }] },
+    userContent(prompt, attachments),
   ];
 
-  const stream = await ai.models.generateContentStream({
-    model: "gemini-2.5-flash",
+  yield* getProvider(options.providerId).streamChat({
+    ...modelOptions(options, "structured"),
     contents,
-    config: {
-      systemInstruction: `
-You are PKP.ai, an HTML presentation generator.
+    systemInstruction: `
+You are PKP.ai, a presentation designer.
 ${founderInfo}
-${presentationRules}
-`,
-    },
+${deckRules}
+${brandKit ? brandRules(brandKit) : ""}
+${personaRules(options.persona)}`,
+    responseSchema: DECK_JSON_SCHEMA,
+    signal: options.signal,
   });
+}
 
-  for await (const chunk of stream) {
-    if (chunk.text) {
-      yield { textChunk: chunk.text };
-    }
-  }
+/* =========================
+   SLIDE EDITING
+   Rewrites only the selected slides. The rest of the deck goes along as an
+   outline, so the reply stays consistent without resending every slide.
+========================= */
+const slideEditInstruction = `
+You are PKP.ai, a presentation designer, revising some slides of an existing deck.
+Reply with JSON in the given schema containing only the revised slides, in order.
+Return as many slides as were selected unless the change asks to split, merge or add slides.
+Follow the deck's existing tone and level of detail. Plain text only: no Markdown or HTML in any field.
+`;
+
+export async function editSlides(
+  deck: Deck,
+  start: number,
+  end: number,
+  instruction: string,
+  options: RequestOptions = {}
+): Promise<Slide[]> {
+  const outline = deck.slides.map((slide, i) => `${i + 1}. ${slide.title || slide.layout}`).join("\n");
+  const range = end > start ? `Slides ${start + 1}-${end + 1}` : `Slide ${start + 1}`;
+  const prompt = `Deck: ${deck.title}
+All slides:
+${outline}
+
+${range}, as JSON:
+${deckToPromptJson(deck.slides.slice(start, end + 1))}
+
+Change requested: ${instruction}`;
+
+  const reply = await getProvider(options.providerId).generateText({
+    ...modelOptions(options, "structured"),
+    contents: [{ role: "user", parts: [{ text: prompt }] }],
+    systemInstruction: slideEditInstruction + personaRules(options.persona),
+    responseSchema: SLIDES_JSON_SCHEMA,
+    signal: options.signal,
+  });
+
+  const slides = parseDeck(reply)?.slides;
+  if (!slides) throw new Error("The model did not return valid slides. Please try again.");
+  return slides;
 }
 
 /* =========================
    IMAGE GENERATION
 ========================= */
-export async function generateImage(
+// Generates `params.count` variations in parallel from the prompt and any source images.
+// Failed variations are dropped; the call only fails when none succeed.
+export async function generateImages(
   prompt: string,
-  attachment?: { data: string; mimeType: string }
-): Promise<string> {
-  const parts: Part[] = [];
-
-  if (attachment) {
-    parts.push({
-      inlineData: {
-        data: attachment.data,
-        mimeType: attachment.mimeType,
-      },
-    });
-  }
+  sources: { data: string; mimeType: string }[],
+  params: ImageParams,
+  options: RequestOptions = {}
+): Promise<string[]> {
+  const parts: Part[] = sources.map(image => ({
+    inlineData: {
+      data: image.data,
+      mimeType: image.mimeType,
+    },
+  }));
 
-  if (prompt) parts.push({ text: prompt });
+  // Image models take no system prompt, so the chat's instructions go along with the prompt.
+  const styled = [
+    prompt,
+    params.style?.prompt && `Style: ${params.style.prompt}`,
+    personaRules(options.persona).trim(),
+  ].filter(Boolean).join("\n\n");
+  if (styled) parts.push({ text: styled });
 
   if (!parts.length) {
     throw new Error("Prompt or image required");
   }
 
-  const res = await ai.models.generateContent({
-    model: "gemini-2.5-flash-image",
-    contents: { parts },
-    config: {
-      responseModalities: [Modality.IMAGE],
-    },
-  });
-
-  const image = res.candidates?.[0]?.content?.parts?.find(p => "inlineData" in p);
-
-  if (image && "inlineData" in image) {
-    const { data, mimeType } = image.inlineData;
-    return `data:${mimeType || "image/png"};base64,${data}`;
+  const provider = getProvider(options.providerId);
+  const results = await Promise.allSettled(
+    Array.from({ length: params.count }, () =>
+      provider.generateImage({ parts, model: options.modelSettings?.imageModel, aspectRatio: params.aspectRatio, signal: options.signal })
+    )
+  );
+  const images = results.flatMap(r => (r.status === "fulfilled" ? [r.value] : []));
+  if (!images.length) {
+    const failure = results.find((r): r is PromiseRejectedResult => r.status === "rejected");
+    throw failure?.reason ?? new Error("Image generation failed");
   }
-
-  throw new Error("Image generation failed");
+  return images;
 }
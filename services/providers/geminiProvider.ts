@@ -0,0 +1,155 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import type { GenerationConfig, Source } from "../../types";
+import {
+  ChatStreamRequest,
+  Content,
+  ImageRequest,
+  ModelProvider,
+  StreamChunk,
+  TextRequest,
+  TITLE_INSTRUCTION,
+} from "./types";
+
+/* =========================
+   ENV CONFIG (VITE)
+========================= */
+const API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
+
+// The first model of each list is the default.
+const TEXT_MODELS = ["gemini-2.5-flash", "gemini-2.5-pro", "gemini-2.5-flash-lite"];
+const IMAGE_MODELS = ["gemini-2.5-flash-image"];
+
+const pickModel = (models: string[], model?: string): string =>
+  model && models.includes(model) ? model : models[0];
+
+// Pro can't turn thinking off; 128 tokens is the smallest budget it takes.
+const toGenerateConfig = (model: string, config: GenerationConfig = {}) => ({
+  temperature: config.temperature,
+  topP: config.topP,
+  maxOutputTokens: config.maxOutputTokens,
+  ...(config.thinkingBudget !== undefined ? {
+    thinkingConfig: { thinkingBudget: model.includes("pro") && config.thinkingBudget === 0 ? 128 : config.thinkingBudget },
+  } : {}),
+});
+
+let client: GoogleGenAI | null = null;
+
+// Created on first use so the app still boots when only a self-hosted provider is configured.
+const getClient = (): GoogleGenAI => {
+  if (!API_KEY) {
+    throw new Error("VITE_GEMINI_API_KEY is not set");
+  }
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: API_KEY });
+  }
+  return client;
+};
+
+export const geminiProvider: ModelProvider = {
+  id: "gemini",
+  label: "Gemini",
+  textModel: TEXT_MODELS[0],
+  imageModel: IMAGE_MODELS[0],
+  textModels: TEXT_MODELS,
+  imageModels: IMAGE_MODELS,
+  supportsThinkingBudget: true,
+
+  isConfigured() {
+    return Boolean(API_KEY);
+  },
+
+  async generateTitle(prompt: string, model?: string, signal?: AbortSignal): Promise<string> {
+    const res = await getClient().models.generateContent({
+      model: pickModel(TEXT_MODELS, model),
+      contents: TITLE_INSTRUCTION(prompt),
+      config: { abortSignal: signal },
+    });
+    return res.text ?? "";
+  },
+
+  async generateText({ contents, systemInstruction, model, config, responseSchema, signal }: TextRequest): Promise<string> {
+    const textModel = pickModel(TEXT_MODELS, model);
+    const res = await getClient().models.generateContent({
+      model: textModel,
+      contents,
+      config: {
+        ...toGenerateConfig(textModel, config),
+        systemInstruction,
+        ...(responseSchema ? { responseMimeType: "application/json", responseJsonSchema: responseSchema } : {}),
+        abortSignal: signal,
+      },
+    });
+    return res.text ?? "";
+  },
+
+  async countTokens(contents: Content[], model?: string, signal?: AbortSignal): Promise<number> {
+    const res = await getClient().models.countTokens({
+      model: pickModel(TEXT_MODELS, model),
+      contents,
+      config: { abortSignal: signal },
+    });
+    return res.totalTokens ?? 0;
+  },
+
+  async *streamChat({ contents, systemInstruction, model, config, useSearch, responseSchema, signal }: ChatStreamRequest): AsyncGenerator<StreamChunk> {
+    const textModel = pickModel(TEXT_MODELS, model);
+    const stream = await getClient().models.generateContentStream({
+      model: textModel,
+      contents,
+      config: {
+        ...toGenerateConfig(textModel, config),
+        systemInstruction,
+        tools: useSearch ? [{ googleSearch: {} }] : undefined,
+        ...(responseSchema ? { responseMimeType: "application/json", responseJsonSchema: responseSchema } : {}),
+        abortSignal: signal,
+      },
+    });
+
+    const sources: Source[] = [];
+
+    for await (const chunk of stream) {
+      if (signal?.aborted) return;
+
+      if (chunk.text) {
+        yield { textChunk: chunk.text };
+      }
+
+      const grounding =
+        chunk.candidates?.[0]?.groundingMetadata?.groundingChunks;
+
+      if (grounding) {
+        grounding.forEach((g) => {
+          const uri = g.web?.uri;
+          if (uri && !sources.find(s => s.uri === uri)) {
+            sources.push({ uri, title: g.web?.title || uri });
+          }
+        });
+      }
+    }
+
+    if (sources.length) {
+      yield { sources };
+    }
+  },
+
+  async generateImage({ parts, model, aspectRatio, signal }: ImageRequest): Promise<string> {
+    const res = await getClient().models.generateContent({
+      model: pickModel(IMAGE_MODELS, model),
+      contents: { parts },
+      config: {
+        responseModalities: [Modality.IMAGE],
+        ...(aspectRatio ? { imageConfig: { aspectRatio } } : {}),
+        abortSignal: signal,
+      },
+    });
+
+    const image = res.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+
+    if (image?.inlineData?.data) {
+      const { data, mimeType } = image.inlineData;
+      return `data:${mimeType || "image/png"};base64,${data}`;
+    }
+
+    throw new Error("Image generation failed");
+  },
+};
@@ -0,0 +1,29 @@
+import type { ProviderId } from "../../types";
+import { geminiProvider } from "./geminiProvider";
+import { openAiCompatibleProvider } from "./openAiCompatibleProvider";
+import type { ModelProvider } from "./types";
+
+export type { ChatStreamRequest, Content, ImageRequest, ModelProvider, Part, StreamChunk, TextRequest } from "./types";
+export { estimateTokens } from "./types";
+
+const providers: Record<ProviderId, ModelProvider> = {
+  gemini: geminiProvider,
+  "openai-compatible": openAiCompatibleProvider,
+};
+
+export const listProviders = (): ModelProvider[] => Object.values(providers);
+
+// Gemini stays the default; fall back to the self-hosted server when it is the only one configured.
+export const getDefaultProviderId = (): ProviderId =>
+  !geminiProvider.isConfigured() && openAiCompatibleProvider.isConfigured()
+    ? openAiCompatibleProvider.id
+    : geminiProvider.id;
+
+export const getProvider = (id?: ProviderId): ModelProvider =>
+  providers[id ?? getDefaultProviderId()] ?? providers[getDefaultProviderId()];
+
+// The model a request asking for `model` ends up using; unknown names fall back to the provider's default.
+export const resolveModel = (provider: ModelProvider, kind: "text" | "image", model?: string): string => {
+  const models = kind === "text" ? provider.textModels : provider.imageModels;
+  return model && models.includes(model) ? model : kind === "text" ? provider.textModel : provider.imageModel;
+};
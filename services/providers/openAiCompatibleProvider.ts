@@ -0,0 +1,225 @@
+import {
+  ChatStreamRequest,
+  Content,
+  estimateTokens,
+  ImageRequest,
+  ModelProvider,
+  StreamChunk,
+  TextRequest,
+  TITLE_INSTRUCTION,
+} from "./types";
+import type { GenerationConfig, ImageAspectRatio } from "../../types";
+
+/* =========================
+   ENV CONFIG (VITE)
+   Defaults target a local Ollama server; llama.cpp and other
+   OpenAI-compatible servers only need a different base URL.
+   The model variables take a comma-separated list; the first is the default.
+========================= */
+const BASE_URL = (import.meta.env.VITE_OPENAI_BASE_URL || "http://localhost:11434/v1").replace(/\/+$/, "");
+const API_KEY = import.meta.env.VITE_OPENAI_API_KEY;
+
+const parseModels = (value?: string): string[] =>
+  (value ?? "").split(",").map((model) => model.trim()).filter(Boolean);
+
+const TEXT_MODELS = parseModels(import.meta.env.VITE_OPENAI_MODEL);
+const IMAGE_MODELS = parseModels(import.meta.env.VITE_OPENAI_IMAGE_MODEL);
+const TEXT_MODEL: string | undefined = TEXT_MODELS[0];
+const IMAGE_MODEL: string | undefined = IMAGE_MODELS[0];
+
+// The image endpoint takes fixed sizes; these are the ones gpt-image models accept.
+const IMAGE_SIZES: Record<ImageAspectRatio, string> = {
+  "1:1": "1024x1024",
+  "4:3": "1536x1024",
+  "16:9": "1536x1024",
+  "3:4": "1024x1536",
+  "9:16": "1024x1536",
+};
+
+type OpenAiContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } }
+  | { type: "file"; file: { filename: string; file_data: string } };
+
+type OpenAiMessage = {
+  role: "system" | "user" | "assistant";
+  content: string | OpenAiContentPart[];
+};
+
+const headers = (): HeadersInit => ({
+  "Content-Type": "application/json",
+  ...(API_KEY ? { Authorization: `Bearer ${API_KEY}` } : {}),
+});
+
+// Models outside the configured list (e.g. from a chat made with another setup) fall back to the default.
+const requireTextModel = (model?: string): string => {
+  if (!TEXT_MODEL) {
+    throw new Error("VITE_OPENAI_MODEL is not set");
+  }
+  return model && TEXT_MODELS.includes(model) ? model : TEXT_MODEL;
+};
+
+// Thinking budgets have no equivalent in the chat completions API.
+const samplingParams = (config: GenerationConfig = {}) => ({
+  temperature: config.temperature,
+  top_p: config.topP,
+  max_tokens: config.maxOutputTokens,
+});
+
+const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+  const res = await fetch(`${BASE_URL}${path}`, {
+    method: "POST",
+    headers: headers(),
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!res.ok) {
+    const detail = await res.text().catch(() => "");
+    throw new Error(`Model server returned ${res.status}${detail ? `: ${detail}` : ""}`);
+  }
+  return res;
+};
+
+const toOpenAiMessages = (contents: Content[], systemInstruction?: string): OpenAiMessage[] => {
+  const messages: OpenAiMessage[] = [];
+  if (systemInstruction) {
+    messages.push({ role: "system", content: systemInstruction });
+  }
+  for (const c of contents) {
+    const parts: OpenAiContentPart[] = c.parts.map((p) => {
+      if ("text" in p) return { type: "text", text: p.text };
+      const url = `data:${p.inlineData.mimeType};base64,${p.inlineData.data}`;
+      // Non-image inline data is a PDF; the chat API takes those as file parts.
+      return p.inlineData.mimeType.startsWith("image/")
+        ? { type: "image_url", image_url: { url } }
+        : { type: "file", file: { filename: p.fileName || "document.pdf", file_data: url } };
+    });
+    const textOnly = parts.every((p) => p.type === "text");
+    messages.push({
+      role: c.role === "model" ? "assistant" : "user",
+      // Plain strings keep text-only servers that reject content arrays working.
+      content: textOnly ? parts.map((p) => (p as { text: string }).text).join("\n") : parts,
+    });
+  }
+  return messages;
+};
+
+const jsonSchemaFormat = (schema: object) => ({ type: "json_schema", json_schema: { name: "response", schema } });
+
+// Yields the `data:` payload of each server-sent event in the response body.
+async function* readServerSentEvents(res: Response): AsyncGenerator<string> {
+  if (!res.body) return;
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) >= 0) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line.startsWith("data:")) {
+          yield line.slice(5).trim();
+        }
+      }
+    }
+  } finally {
+    // Runs when the consumer stops early too, closing the connection to the server.
+    reader.cancel().catch(() => {});
+  }
+}
+
+export const openAiCompatibleProvider: ModelProvider = {
+  id: "openai-compatible",
+  label: TEXT_MODEL ? `Self-hosted (${TEXT_MODEL})` : "Self-hosted",
+  textModel: TEXT_MODEL ?? "",
+  imageModel: IMAGE_MODEL ?? "",
+  textModels: TEXT_MODELS,
+  imageModels: IMAGE_MODELS,
+  supportsThinkingBudget: false,
+
+  isConfigured() {
+    return Boolean(TEXT_MODEL);
+  },
+
+  async generateTitle(prompt: string, model?: string, signal?: AbortSignal): Promise<string> {
+    const res = await post("/chat/completions", {
+      model: requireTextModel(model),
+      messages: [{ role: "user", content: TITLE_INSTRUCTION(prompt) }],
+      stream: false,
+    }, signal);
+    const json = await res.json();
+    return json.choices?.[0]?.message?.content ?? "";
+  },
+
+  async generateText({ contents, systemInstruction, model, config, responseSchema, signal }: TextRequest): Promise<string> {
+    const res = await post("/chat/completions", {
+      model: requireTextModel(model),
+      ...samplingParams(config),
+      messages: toOpenAiMessages(contents, systemInstruction),
+      stream: false,
+      ...(responseSchema ? { response_format: jsonSchemaFormat(responseSchema) } : {}),
+    }, signal);
+    const json = await res.json();
+    return json.choices?.[0]?.message?.content ?? "";
+  },
+
+  // The OpenAI API has no token counting endpoint, so this is an estimate.
+  async countTokens(contents: Content[]): Promise<number> {
+    return estimateTokens(contents);
+  },
+
+  // Web search grounding has no equivalent here, so `useSearch` is ignored.
+  async *streamChat({ contents, systemInstruction, model, config, responseSchema, signal }: ChatStreamRequest): AsyncGenerator<StreamChunk> {
+    const res = await post("/chat/completions", {
+      model: requireTextModel(model),
+      ...samplingParams(config),
+      messages: toOpenAiMessages(contents, systemInstruction),
+      stream: true,
+      ...(responseSchema ? { response_format: jsonSchemaFormat(responseSchema) } : {}),
+    }, signal);
+
+    for await (const data of readServerSentEvents(res)) {
+      if (data === "[DONE]" || signal?.aborted) break;
+      try {
+        const text = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (text) {
+          yield { textChunk: text };
+        }
+      } catch {
+        // Skip keep-alives and partial frames the server may interleave.
+      }
+    }
+  },
+
+  async generateImage({ parts, model, aspectRatio = "1:1", signal }: ImageRequest): Promise<string> {
+    if (!IMAGE_MODEL) {
+      throw new Error("Image generation is not available: VITE_OPENAI_IMAGE_MODEL is not set");
+    }
+    const prompt = parts.map((p) => ("text" in p ? p.text : "")).join("\n").trim();
+    if (!prompt) {
+      throw new Error("This provider needs a text prompt to generate images");
+    }
+
+    const res = await post("/images/generations", {
+      model: model && IMAGE_MODELS.includes(model) ? model : IMAGE_MODEL,
+      prompt,
+      n: 1,
+      size: IMAGE_SIZES[aspectRatio],
+      response_format: "b64_json",
+    }, signal);
+    const json = await res.json();
+    const data = json.data?.[0]?.b64_json;
+
+    if (data) {
+      return `data:image/png;base64,${data}`;
+    }
+
+    throw new Error("Image generation failed");
+  },
+};
@@ -0,0 +1,86 @@
+import type { GenerationConfig, ImageAspectRatio, ProviderId, Source } from "../../types";
+
+/* =========================
+   SHARED TYPES
+========================= */
+export type TextPart = { text: string };
+// `fileName` labels documents for backends that take file parts; Gemini's SDK leaves it out
+// (its `inlineData.displayName` is rejected by the Gemini API).
+export type ImagePart = { inlineData: { mimeType: string; data: string }; fileName?: string };
+export type Part = TextPart | ImagePart;
+
+export type Content = {
+  role: "user" | "model";
+  parts: Part[];
+};
+
+export type StreamChunk = {
+  textChunk?: string;
+  sources?: Source[];
+};
+
+export interface ChatStreamRequest {
+  contents: Content[];
+  systemInstruction: string;
+  // One of the provider's `textModels`; its default model when unset.
+  model?: string;
+  config?: GenerationConfig;
+  // Ground answers with web search when the backend supports it.
+  useSearch?: boolean;
+  // JSON Schema the reply must follow; the streamed text is then JSON.
+  responseSchema?: object;
+  signal?: AbortSignal;
+}
+
+export interface TextRequest {
+  contents: Content[];
+  systemInstruction?: string;
+  model?: string;
+  config?: GenerationConfig;
+  // JSON Schema the reply must follow; the returned text is then JSON.
+  responseSchema?: object;
+  signal?: AbortSignal;
+}
+
+export interface ImageRequest {
+  parts: Part[];
+  // One of the provider's `imageModels`; its default model when unset.
+  model?: string;
+  // Backends without free aspect ratios use the closest size they offer.
+  aspectRatio?: ImageAspectRatio;
+  signal?: AbortSignal;
+}
+
+/* =========================
+   PROVIDER CONTRACT
+========================= */
+export interface ModelProvider {
+  readonly id: ProviderId;
+  readonly label: string;
+  // Default models; the first entry of each list.
+  readonly textModel: string;
+  readonly imageModel: string;
+  readonly textModels: string[];
+  readonly imageModels: string[];
+  // Whether `GenerationConfig.thinkingBudget` has any effect.
+  readonly supportsThinkingBudget: boolean;
+  // False when the provider is missing the env config it needs to make calls.
+  isConfigured(): boolean;
+  // `model` is the chat's text model; unknown names fall back to the default, as in requests.
+  generateTitle(prompt: string, model?: string, signal?: AbortSignal): Promise<string>;
+  // Non-streaming completion, used for background work such as summaries.
+  generateText(request: TextRequest): Promise<string>;
+  countTokens(contents: Content[], model?: string, signal?: AbortSignal): Promise<number>;
+  streamChat(request: ChatStreamRequest): AsyncGenerator<StreamChunk>;
+  // Resolves to a `data:` URL.
+  generateImage(request: ImageRequest): Promise<string>;
+}
+
+// Rough count for backends without a tokenizer endpoint: ~4 characters per token,
+// and the flat per-image cost Gemini uses.
+export const estimateTokens = (contents: Content[]): number =>
+  contents.reduce((total, c) => total + c.parts.reduce((sum, p) =>
+    sum + ("text" in p ? Math.ceil(p.text.length / 4) : 258), 4), 0);
+
+export const TITLE_INSTRUCTION = (prompt: string) =>
+  `Generate a short title (max 4 words) for: "${prompt}"`;
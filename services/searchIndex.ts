@@ -0,0 +1,167 @@
+import type { ChatSession, Message } from "../types";
+import { cleanHtmlContent } from "../utils/presentationHtml";
+
+/* =========================
+   SEARCH INDEX
+   An in-memory inverted index over every message in every session,
+   including branches that are not currently shown. Tokenized messages are
+   cached per message object, so rebuilding after a state change only
+   re-reads the messages that actually changed.
+========================= */
+export interface SnippetSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchHit {
+  sessionId: string;
+  sessionTitle: string;
+  messageId: string;
+  role: Message["role"];
+  timestamp: string;
+  score: number;
+  snippet: SnippetSegment[];
+}
+
+interface IndexedMessage {
+  text: string;
+  sourceTitles: string;
+  terms: Map<string, number>;
+  sourceTerms: Set<string>;
+}
+
+interface Document {
+  session: ChatSession;
+  message: Message;
+  indexed: IndexedMessage;
+}
+
+export interface SearchIndex {
+  documents: Document[];
+  postings: Map<string, number[]>;
+}
+
+const SNIPPET_RADIUS = 60;
+const MAX_HITS = 50;
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().match(/[\p{L}\p{N}]+/gu)?.filter(t => t.length > 1) ?? [];
+
+// Text a person would search for: no base64 payloads, no presentation markup.
+const searchableText = (message: Message): string => {
+  if (message.type === "image" || message.type === "loading") return "";
+  const deck = cleanHtmlContent(message.content);
+  const text = deck.length > 20
+    ? message.content.replace(deck, " ") + " " + deck.replace(/<(script|style)[\s\S]*?<\/\1>/gi, " ").replace(/<[^>]+>/g, " ")
+    : message.content;
+  return text.replace(/data:[^;,\s]+;base64,[^\s"')]+/g, " ").replace(/\s+/g, " ").trim();
+};
+
+const indexCache = new WeakMap<Message, IndexedMessage>();
+
+const indexMessage = (message: Message): IndexedMessage => {
+  const cached = indexCache.get(message);
+  if (cached) return cached;
+
+  const text = searchableText(message);
+  const sourceTitles = (message.sources ?? []).map(s => s.title).join(" · ");
+  const terms = new Map<string, number>();
+  tokenize(text).forEach(t => terms.set(t, (terms.get(t) ?? 0) + 1));
+  const sourceTerms = new Set(tokenize(sourceTitles));
+  sourceTerms.forEach(t => terms.set(t, (terms.get(t) ?? 0) + 1));
+
+  const indexed = { text, sourceTitles, terms, sourceTerms };
+  indexCache.set(message, indexed);
+  return indexed;
+};
+
+export const buildSearchIndex = (sessions: ChatSession[]): SearchIndex => {
+  const documents: Document[] = [];
+  const postings = new Map<string, number[]>();
+
+  for (const session of sessions) {
+    for (const message of session.messages) {
+      const indexed = indexMessage(message);
+      if (!indexed.terms.size) continue;
+      const docId = documents.push({ session, message, indexed }) - 1;
+      indexed.terms.forEach((_, term) => {
+        const list = postings.get(term);
+        if (list) list.push(docId);
+        else postings.set(term, [docId]);
+      });
+    }
+  }
+
+  return { documents, postings };
+};
+
+// Documents containing `term`; the last word of a query also matches as a prefix while typing.
+const matchTerm = (index: SearchIndex, term: string, allowPrefix: boolean): Map<number, string[]> => {
+  const matches = new Map<number, string[]>();
+  const add = (indexTerm: string) => index.postings.get(indexTerm)?.forEach(docId => {
+    matches.set(docId, [...(matches.get(docId) ?? []), indexTerm]);
+  });
+
+  if (allowPrefix) {
+    index.postings.forEach((_, indexTerm) => {
+      if (indexTerm.startsWith(term)) add(indexTerm);
+    });
+  } else {
+    add(term);
+  }
+  return matches;
+};
+
+const buildSnippet = (text: string, terms: string[]): SnippetSegment[] => {
+  if (!text) return [];
+  const pattern = new RegExp(`(${terms.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")})`, "giu");
+  const first = text.search(pattern);
+  const start = Math.max(0, (first < 0 ? 0 : first) - SNIPPET_RADIUS);
+  const end = Math.min(text.length, (first < 0 ? 0 : first) + SNIPPET_RADIUS * 2);
+  const excerpt = `${start > 0 ? "…" : ""}${text.slice(start, end)}${end < text.length ? "…" : ""}`;
+
+  return excerpt.split(pattern)
+    .filter(Boolean)
+    .map(part => ({ text: part, match: terms.some(t => part.toLowerCase() === t) }));
+};
+
+// Ranks messages containing every query word by TF-IDF, with a boost for source-title matches.
+export const searchSessions = (index: SearchIndex, query: string): SearchHit[] => {
+  const queryTerms = tokenize(query);
+  if (!queryTerms.length) return [];
+
+  const perTerm = queryTerms.map((term, i) => matchTerm(index, term, i === queryTerms.length - 1));
+  const [first, ...rest] = perTerm;
+  const total = index.documents.length;
+
+  const hits: SearchHit[] = [];
+  first.forEach((_, docId) => {
+    if (!rest.every(m => m.has(docId))) return;
+    const { session, message, indexed } = index.documents[docId];
+
+    let score = 0;
+    const matchedTerms: string[] = [];
+    perTerm.forEach(matches => {
+      for (const term of matches.get(docId) ?? []) {
+        const idf = Math.log(1 + total / (index.postings.get(term)?.length ?? 1));
+        score += (indexed.terms.get(term) ?? 0) * idf * (indexed.sourceTerms.has(term) ? 1.5 : 1);
+        matchedTerms.push(term);
+      }
+    });
+
+    const inText = matchedTerms.some(t => indexed.text.toLowerCase().includes(t));
+    hits.push({
+      sessionId: session.id,
+      sessionTitle: session.title,
+      messageId: message.id,
+      role: message.role,
+      timestamp: message.timestamp,
+      score,
+      snippet: buildSnippet(inText ? indexed.text : indexed.sourceTitles, matchedTerms),
+    });
+  });
+
+  return hits
+    .sort((a, b) => b.score - a.score || b.timestamp.localeCompare(a.timestamp))
+    .slice(0, MAX_HITS);
+};
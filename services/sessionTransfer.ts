@@ -0,0 +1,650 @@
+import { Lexer, type Token, type Tokens } from "marked";
+import type { jsPDF } from "jspdf";
+import type { Attachment, ChatSession, ConversationSummary, Deck, Message, Source } from "../types";
+import { getActivePath } from "../utils/conversationTree";
+import { isObject } from "../utils/guards";
+import { isBase64 } from "../utils/binary";
+import { renderMarkdown } from "../utils/markdown";
+import { cleanHtmlContent, htmlToDeck, sanitizePresentationHtml } from "../utils/presentationHtml";
+import { normalizeDeck } from "../utils/deck";
+import { normalizeImageParams } from "../utils/imageOptions";
+import { normalizePersona } from "../utils/personas";
+import { normalizeGeneratedWith, normalizeModelSettings } from "../utils/modelSettings";
+import { getAttachmentKind } from "../utils/attachments";
+import { SLIDE_STYLES } from "../components/SlideRenderer";
+import { listProviders } from "./providers";
+import { deckSlidesMarkup, drawSlideToPdf, fitImage, loadImage, SLIDE_H, SLIDE_W, toPdfText } from "./deckExport";
+
+/* =========================
+   JSON FORMAT
+   Bump EXPORT_VERSION whenever the envelope or session shape changes in a way
+   older builds cannot read, and teach `readSessions` to upgrade the old one.
+========================= */
+const EXPORT_FORMAT = "pkp-ai-sessions";
+const EXPORT_VERSION = 1;
+
+interface SessionExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  sessions: ChatSession[];
+}
+
+export class SessionImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SessionImportError";
+  }
+}
+
+// Originals kept by "Keep the original file on this device" still carry their camera and
+// location data, so they stay out of exports.
+const withoutOriginals = (session: ChatSession): ChatSession => ({
+  ...session,
+  messages: session.messages.map(message => message.attachments?.some(a => a.original)
+    ? { ...message, attachments: message.attachments.map(({ original: _original, ...attachment }) => attachment) }
+    : message),
+});
+
+export const exportSessionsToJson = (sessions: ChatSession[]): string => {
+  const payload: SessionExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    sessions: sessions.map(withoutOriginals),
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+/* =========================
+   MARKDOWN TRANSCRIPT
+========================= */
+const roleLabel = (message: Message) => (message.role === "user" ? "You" : "PKP.ai");
+
+const formatTimestamp = (iso: string) => {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? iso : date.toLocaleString();
+};
+
+// Only web links are written as links; a `javascript:` source from an imported file stays plain text.
+const isWebUrl = (uri: string) => /^https?:\/\//i.test(uri);
+
+const messageBodyMarkdown = (message: Message): string => {
+  if (message.type === "image") return `![Generated image](${message.content})`;
+  if (message.type === "error") return `> Error: ${message.content}`;
+  if (cleanHtmlContent(message.content).length > 20) {
+    return "_Presentation (export as HTML or JSON to keep the slides)._";
+  }
+  return message.content;
+};
+
+const sessionToMarkdown = (session: ChatSession): string => {
+  const lines: string[] = [`# ${session.title}`, "", `_Created ${formatTimestamp(session.createdAt)}_`, ""];
+  const footnotes: Source[] = [];
+
+  for (const message of getActivePath(session)) {
+    lines.push(`### ${roleLabel(message)} · ${formatTimestamp(message.timestamp)}`, "");
+    message.attachments?.forEach(attachment => {
+      lines.push(getAttachmentKind(attachment) === "image"
+        ? `![${attachment.name}](data:${attachment.mimeType};base64,${attachment.data})`
+        : `_Attached: ${attachment.name}_`, "");
+    });
+    let body = messageBodyMarkdown(message);
+    if (message.sources?.length) {
+      const refs = message.sources.map(source => {
+        footnotes.push(source);
+        return `[^${footnotes.length}]`;
+      });
+      body += ` ${refs.join("")}`;
+    }
+    if (message.status === "stopped") body += "\n\n_(stopped)_";
+    lines.push(body, "");
+  }
+
+  if (footnotes.length) {
+    lines.push("---", "");
+    footnotes.forEach((source, i) => lines.push(`[^${i + 1}]: ${isWebUrl(source.uri) ? `[${source.title}](${source.uri})` : `${source.title} (${source.uri})`}`));
+    lines.push("");
+  }
+
+  return lines.join("\n");
+};
+
+export const exportSessionsToMarkdown = (sessions: ChatSession[]): string =>
+  sessions.map(sessionToMarkdown).join("\n\n---\n\n");
+
+/* =========================
+   STANDALONE HTML
+========================= */
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const messageBodyHtml = (message: Message): string => {
+  if (message.type === "image") return `<img src="${escapeHtml(message.content)}" alt="Generated image">`;
+  if (message.type === "error") return `<p class="error">${escapeHtml(message.content)}</p>`;
+  if (message.deck) return `<div class="deck-slides">${deckSlidesMarkup(message.deck)}</div>`;
+  const deck = cleanHtmlContent(message.content);
+  if (deck.length > 20) {
+    // The deck runs in a script-less sandbox so the export cannot execute model output.
+    return `<iframe class="deck" sandbox srcdoc="${escapeHtml(sanitizePresentationHtml(deck))}" title="Presentation"></iframe>`;
+  }
+  return renderMarkdown(message.content);
+};
+
+const sessionToHtml = (session: ChatSession): string => {
+  const messages = getActivePath(session).map(message => {
+    const attachments = (message.attachments ?? []).map(attachment => getAttachmentKind(attachment) === "image"
+      ? `<img src="data:${escapeHtml(attachment.mimeType)};base64,${attachment.data}" alt="${escapeHtml(attachment.name)}">`
+      : `<p class="attachment">Attached: ${escapeHtml(attachment.name)}</p>`).join("");
+    const sources = message.sources?.length
+      ? `<ol class="sources">${message.sources.map(s => isWebUrl(s.uri)
+        ? `<li><a href="${escapeHtml(s.uri)}" target="_blank" rel="noopener noreferrer">${escapeHtml(s.title)}</a></li>`
+        : `<li>${escapeHtml(s.title)} (${escapeHtml(s.uri)})</li>`).join("")}</ol>`
+      : "";
+    return `<article class="message ${message.role}">
+  <header>${roleLabel(message)} · <time datetime="${escapeHtml(message.timestamp)}">${escapeHtml(formatTimestamp(message.timestamp))}</time>${message.status === "stopped" ? " · stopped" : ""}</header>
+  ${attachments}
+  <div class="body">${messageBodyHtml(message)}</div>
+  ${sources}
+</article>`;
+  });
+
+  return `<section class="session">
+<h1>${escapeHtml(session.title)}</h1>
+<p class="meta">Created ${escapeHtml(formatTimestamp(session.createdAt))}</p>
+${messages.join("\n")}
+</section>`;
+};
+
+export const exportSessionsToHtml = (sessions: ChatSession[]): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(sessions.length === 1 ? sessions[0].title : "PKP.ai chats")}</title>
+<style>
+  body { margin: 0; padding: 2rem 1rem; background: #0b0f19; color: #e5e7eb; font: 15px/1.6 system-ui, sans-serif; }
+  .session { max-width: 48rem; margin: 0 auto 4rem; }
+  h1 { font-size: 1.6rem; margin-bottom: 0.25rem; }
+  .meta { color: #9ca3af; margin-top: 0; }
+  .message { margin: 1.25rem 0; padding: 1rem; border-radius: 0.5rem; background: #1f2937; }
+  .message.user { background: #1e3a8a; }
+  .message header { font-size: 0.8rem; color: #9ca3af; margin-bottom: 0.5rem; }
+  .message img { max-width: 100%; border-radius: 0.5rem; }
+  .deck { width: 100%; aspect-ratio: 16 / 9; border: 0; border-radius: 0.5rem; background: #000; }
+  .deck-slides { display: flex; flex-direction: column; gap: 0.75rem; }
+  .deck-slides .pkp-slide { border-radius: 0.5rem; }
+  .error { color: #f87171; }
+  .attachment { font-size: 0.85rem; color: #d1d5db; }
+  .sources { font-size: 0.85rem; border-top: 1px solid #374151; padding-top: 0.5rem; }
+  a { color: #a5b4fc; }
+  pre { background: #111827; padding: 0.75rem; border-radius: 0.5rem; overflow-x: auto; }
+  code { font-family: ui-monospace, monospace; font-size: 0.9em; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #374151; padding: 0.3rem 0.6rem; }
+  blockquote { border-left: 3px solid #4b5563; margin-left: 0; padding-left: 0.75rem; color: #9ca3af; }
+  .code-block-header button { display: none; }
+${SLIDE_STYLES}
+</style>
+</head>
+<body>
+${sessions.map(sessionToHtml).join("\n")}
+</body>
+</html>
+`;
+
+/* =========================
+   PDF TRANSCRIPT
+   A4 pages on white paper. Markdown is reduced to headings, paragraphs,
+   lists, quotes and code blocks; presentations appear as slide previews.
+========================= */
+type TextBlock =
+  | { kind: "heading" | "paragraph" | "quote" | "code"; text: string; indent: number }
+  | { kind: "item"; marker: string; text: string; indent: number };
+
+const inlineText = (tokens: Token[] = []): string => tokens.map(token => {
+  switch (token.type) {
+    case "link": {
+      const link = token as Tokens.Link;
+      const text = inlineText(link.tokens);
+      return text && text !== link.href ? `${text} (${link.href})` : link.href;
+    }
+    case "image":
+      return `[image: ${(token as Tokens.Image).text || "untitled"}]`;
+    case "br":
+      return "\n";
+    case "html":
+      return (token as Tokens.HTML).text.replace(/<[^>]+>/g, "");
+    default:
+      return "tokens" in token && token.tokens ? inlineText(token.tokens) : "text" in token ? String(token.text) : "";
+  }
+}).join("");
+
+const toTextBlocks = (tokens: Token[], indent = 0, quoted = false): TextBlock[] => tokens.flatMap((token): TextBlock[] => {
+  switch (token.type) {
+    case "heading":
+      return [{ kind: "heading", text: inlineText((token as Tokens.Heading).tokens), indent }];
+    case "paragraph":
+    case "text": {
+      const { tokens: inline, text } = token as Tokens.Paragraph;
+      return [{ kind: quoted ? "quote" : "paragraph", text: inline ? inlineText(inline) : text, indent }];
+    }
+    case "code":
+      return [{ kind: "code", text: (token as Tokens.Code).text, indent }];
+    case "blockquote":
+      return toTextBlocks((token as Tokens.Blockquote).tokens, indent, true);
+    case "list": {
+      const list = token as Tokens.List;
+      return list.items.flatMap((item, i) => {
+        const marker = item.task ? (item.checked ? "[x]" : "[ ]") : list.ordered ? `${(Number(list.start) || 1) + i}.` : "•";
+        const text = item.tokens.filter(t => t.type !== "list")
+          .map(t => ("tokens" in t && t.tokens ? inlineText(t.tokens) : "text" in t ? String(t.text) : "")).join(" ");
+        return [{ kind: "item" as const, marker, text, indent }, ...toTextBlocks(item.tokens.filter(t => t.type === "list"), indent + 1, quoted)];
+      });
+    }
+    case "table": {
+      const table = token as Tokens.Table;
+      return [table.header, ...table.rows].map(row => ({ kind: "paragraph" as const, text: row.map(cell => cell.text).join("  |  "), indent }));
+    }
+    default:
+      return [];
+  }
+});
+
+const PDF_COLORS = { text: "#111827", muted: "#6b7280", link: "#4338ca", error: "#b91c1c", codeBg: "#f3f4f6", rule: "#e5e7eb" };
+const PDF_MARGIN = 48;
+
+// Lays text out top to bottom, starting new pages as needed.
+const createTranscriptWriter = (doc: jsPDF) => {
+  const pageW = doc.internal.pageSize.getWidth();
+  const pageH = doc.internal.pageSize.getHeight();
+  const contentW = pageW - PDF_MARGIN * 2;
+  let y = PDF_MARGIN;
+
+  const ensure = (height: number) => {
+    if (y + height > pageH - PDF_MARGIN) {
+      doc.addPage();
+      y = PDF_MARGIN;
+    }
+  };
+
+  type TextOptions = { size?: number; style?: string; color?: string; indent?: number; font?: string; gap?: number; background?: string; rule?: boolean; link?: string };
+
+  const text = (value: string, { size = 10.5, style = "normal", color = PDF_COLORS.text, indent = 0, font = "helvetica", gap = 6, background, rule, link }: TextOptions = {}) => {
+    doc.setFont(font, style);
+    doc.setFontSize(size);
+    doc.setTextColor(color);
+    const lines = doc.splitTextToSize(toPdfText(value), contentW - indent) as string[];
+    const lineHeight = size * 1.4;
+    for (const line of lines) {
+      ensure(lineHeight);
+      if (background) {
+        doc.setFillColor(background);
+        doc.rect(PDF_MARGIN + indent - 4, y, contentW - indent + 8, lineHeight, "F");
+      }
+      if (rule) {
+        doc.setFillColor(PDF_COLORS.rule);
+        doc.rect(PDF_MARGIN + indent - 8, y, 2, lineHeight, "F");
+      }
+      doc.text(line, PDF_MARGIN + indent, y + size * 0.2, { baseline: "top" });
+      if (link) doc.link(PDF_MARGIN + indent, y, doc.getTextWidth(line), lineHeight, { url: link });
+      y += lineHeight;
+    }
+    y += gap;
+  };
+
+  const image = async (url: string, maxWidth = 280, maxHeight = 280) => {
+    const loaded = await loadImage(url);
+    if (!loaded) {
+      text("[Image could not be embedded]", { style: "italic", color: PDF_COLORS.muted });
+      return;
+    }
+    // Never upscale; a pixel maps to at most a point.
+    const { w, h } = fitImage({ x: 0, y: 0, w: Math.min(maxWidth, loaded.width), h: Math.min(maxHeight, loaded.height) }, loaded.width, loaded.height);
+    ensure(h);
+    doc.addImage(loaded.data, loaded.format, PDF_MARGIN, y, w, h);
+    y += h + 8;
+  };
+
+  // Two slide previews per row.
+  const deck = async (value: Deck) => {
+    text(`${value.title} · ${value.slides.length} slides`, { style: "bold" });
+    const gap = 12;
+    const w = (contentW - gap) / 2;
+    const h = w * SLIDE_H / SLIDE_W;
+    for (let i = 0; i < value.slides.length; i += 2) {
+      ensure(h);
+      for (let j = i; j < Math.min(i + 2, value.slides.length); j++) {
+        await drawSlideToPdf(doc, value.slides[j], j, value.slides.length, { x: PDF_MARGIN + (j - i) * (w + gap), y, scale: w / SLIDE_W }, value.theme);
+      }
+      y += h + gap;
+    }
+  };
+
+  const blocks = (markdown: string) => {
+    for (const block of toTextBlocks(Lexer.lex(markdown, { gfm: true }))) {
+      const indent = block.indent * 16;
+      switch (block.kind) {
+        case "heading":
+          y += 4;
+          text(block.text, { size: 13, style: "bold", indent });
+          break;
+        case "code":
+          text(block.text, { size: 9, font: "courier", indent: indent + 4, background: PDF_COLORS.codeBg, gap: 8 });
+          break;
+        case "quote":
+          text(block.text, { style: "italic", color: PDF_COLORS.muted, indent: indent + 12, rule: true });
+          break;
+        case "item":
+          ensure(10.5 * 1.4);
+          doc.setFont("helvetica", "normal");
+          doc.setTextColor(PDF_COLORS.text);
+          doc.text(block.marker, PDF_MARGIN + indent, y + 2, { baseline: "top" });
+          text(block.text, { indent: indent + 16, gap: 3 });
+          break;
+        default:
+          text(block.text, { indent });
+      }
+    }
+  };
+
+  const rule = () => {
+    ensure(16);
+    doc.setFillColor(PDF_COLORS.rule);
+    doc.rect(PDF_MARGIN, y + 6, contentW, 0.75, "F");
+    y += 16;
+  };
+
+  const newPage = () => {
+    if (y > PDF_MARGIN) {
+      doc.addPage();
+      y = PDF_MARGIN;
+    }
+  };
+
+  return { text, image, deck, blocks, rule, newPage };
+};
+
+const writeMessageToPdf = async (writer: ReturnType<typeof createTranscriptWriter>, message: Message) => {
+  writer.text(`${roleLabel(message)} · ${formatTimestamp(message.timestamp)}${message.status === "stopped" ? " · stopped" : ""}`,
+    { size: 9, style: "bold", color: PDF_COLORS.muted, gap: 4 });
+
+  for (const attachment of message.attachments ?? []) {
+    if (getAttachmentKind(attachment) === "image") {
+      await writer.image(`data:${attachment.mimeType};base64,${attachment.data}`, 200, 200);
+    } else {
+      writer.text(`Attached: ${attachment.name}`, { size: 9, style: "italic", color: PDF_COLORS.muted, gap: 4 });
+    }
+  }
+
+  const legacyDeck = !message.deck && cleanHtmlContent(message.content).length > 20 ? htmlToDeck(cleanHtmlContent(message.content)) : null;
+  if (message.type === "image") {
+    await writer.image(message.content);
+  } else if (message.type === "error") {
+    writer.text(`Error: ${message.content}`, { color: PDF_COLORS.error });
+  } else if (message.deck || legacyDeck) {
+    await writer.deck((message.deck ?? legacyDeck)!);
+  } else if (cleanHtmlContent(message.content).length > 20) {
+    writer.text("Presentation (export as HTML or JSON to keep the slides).", { style: "italic", color: PDF_COLORS.muted });
+  } else if (message.content) {
+    writer.blocks(message.content);
+  }
+
+  if (message.sources?.length) {
+    writer.text("Sources", { size: 9, style: "bold", color: PDF_COLORS.muted, gap: 2 });
+    message.sources.forEach((source, i) => {
+      const link = isWebUrl(source.uri) ? source.uri : undefined;
+      writer.text(`[${i + 1}] ${source.title}`, { size: 9, color: link ? PDF_COLORS.link : PDF_COLORS.text, indent: 8, gap: 0, link });
+      writer.text(source.uri, { size: 8, color: PDF_COLORS.muted, indent: 8, gap: 3 });
+    });
+  }
+  writer.rule();
+};
+
+// The active branch of each session, one session per run of pages.
+export const exportSessionsToPdf = async (sessions: ChatSession[]): Promise<Blob> => {
+  // Loaded on first export; the library is large and most sessions never need it.
+  const { jsPDF } = await import("jspdf");
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  doc.setProperties({ title: sessions.length === 1 ? sessions[0].title : "PKP.ai chats", creator: "PKP.ai" });
+  const writer = createTranscriptWriter(doc);
+
+  for (const session of sessions) {
+    writer.newPage();
+    writer.text(session.title, { size: 18, style: "bold", gap: 2 });
+    writer.text(`Created ${formatTimestamp(session.createdAt)}`, { size: 9, color: PDF_COLORS.muted, gap: 12 });
+    for (const message of getActivePath(session)) {
+      if (message.type === "loading") continue;
+      await writeMessageToPdf(writer, message);
+    }
+  }
+
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(PDF_COLORS.muted);
+    doc.text(`PKP.ai · page ${page} of ${pages}`, doc.internal.pageSize.getWidth() / 2, doc.internal.pageSize.getHeight() - 24, { align: "center" });
+  }
+  return doc.output("blob");
+};
+
+/* =========================
+   IMPORT
+========================= */
+const MESSAGE_ROLES = ["user", "assistant"];
+const MESSAGE_TYPES = ["text", "image", "loading", "error"];
+const MESSAGE_STATUSES = ["in-progress", "complete", "stopped"];
+const MESSAGE_MODES = ["text", "image", "presentation"];
+
+const expect = (condition: boolean, path: string, problem: string) => {
+  if (!condition) throw new SessionImportError(`${path} ${problem}`);
+};
+
+const optional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+const isString = (value: unknown): value is string => typeof value === "string";
+const isBoolean = (value: unknown): value is boolean => typeof value === "boolean";
+const isStringOrNull = (value: unknown) => value === null || isString(value);
+
+// Only the fields an attachment has are copied; anything else in the file is left behind.
+const validateAttachment = (value: unknown, path: string): Attachment => {
+  expect(isObject(value) && isString(value.name) && isBase64(value.data) && isString(value.mimeType),
+    path, "must be { name, mimeType, data } with base64 data");
+  const a = value as Record<string, unknown>;
+  expect(optional(a.originalSize, v => typeof v === "number" && Number.isFinite(v)), `${path}.originalSize`, "must be a number");
+  expect(optional(a.original, v => isObject(v) && isBase64(v.data) && isString(v.mimeType)),
+    `${path}.original`, "must have base64 data and a string mimeType");
+  const original = a.original as Record<string, string> | undefined;
+  return {
+    name: a.name as string,
+    mimeType: a.mimeType as string,
+    data: a.data as string,
+    ...(a.originalSize !== undefined ? { originalSize: a.originalSize as number } : {}),
+    ...(original ? { original: { mimeType: original.mimeType, data: original.data } } : {}),
+  };
+};
+
+const validateDeck = (value: unknown, path: string): Deck => {
+  const deck = normalizeDeck(value);
+  expect(deck !== null, path, "must be a slide deck with at least one slide");
+  return deck!;
+};
+
+const validateMessage = (value: unknown, path: string): Message => {
+  expect(isObject(value), path, "is not an object");
+  const m = value as Record<string, unknown>;
+  expect(isString(m.id) && m.id.length > 0, `${path}.id`, "must be a non-empty string");
+  expect(MESSAGE_ROLES.includes(m.role as string), `${path}.role`, `must be one of ${MESSAGE_ROLES.join(", ")}`);
+  expect(isString(m.content), `${path}.content`, "must be a string");
+  expect(MESSAGE_TYPES.includes(m.type as string), `${path}.type`, `must be one of ${MESSAGE_TYPES.join(", ")}`);
+  expect(isString(m.timestamp), `${path}.timestamp`, "must be a string");
+  expect(optional(m.status, v => MESSAGE_STATUSES.includes(v as string)), `${path}.status`, `must be one of ${MESSAGE_STATUSES.join(", ")}`);
+  expect(optional(m.mode, v => MESSAGE_MODES.includes(v as string)), `${path}.mode`, `must be one of ${MESSAGE_MODES.join(", ")}`);
+  expect(optional(m.parentId, isStringOrNull), `${path}.parentId`, "must be a string or null");
+  expect(optional(m.pinned, isBoolean), `${path}.pinned`, "must be true or false");
+  expect(optional(m.images, v => Array.isArray(v) && v.every(isString)), `${path}.images`, "must be a list of strings");
+  expect(optional(m.editOf, isString), `${path}.editOf`, "must be a string");
+  expect(optional(m.sources, v => Array.isArray(v) && v.every(s => isObject(s) && isString(s.uri) && isString(s.title))),
+    `${path}.sources`, "must be a list of { uri, title }");
+  expect(optional(m.attachments, Array.isArray), `${path}.attachments`, "must be a list");
+  expect(optional(m.deckHistory, Array.isArray), `${path}.deckHistory`, "must be a list");
+  expect(m.deckHistory === undefined || m.deck !== undefined, `${path}.deckHistory`, "needs a deck");
+
+  // Files exported before multiple attachments have a single `attachment`.
+  const attachments = m.attachment !== undefined
+    ? [validateAttachment({ name: "image", ...(isObject(m.attachment) ? m.attachment : {}) }, `${path}.attachment`)]
+    : (m.attachments as unknown[] | undefined)?.map((a, i) => validateAttachment(a, `${path}.attachments[${i}]`));
+  const imageParams = m.imageParams === undefined ? undefined : normalizeImageParams(m.imageParams);
+  expect(m.imageParams === undefined || imageParams !== undefined, `${path}.imageParams`, "must be an object");
+  const generatedWith = m.generatedWith === undefined ? undefined : normalizeGeneratedWith(m.generatedWith);
+  expect(m.generatedWith === undefined || generatedWith !== null, `${path}.generatedWith`, "must name a provider and model");
+
+  return {
+    id: m.id as string,
+    role: m.role as Message["role"],
+    content: m.content as string,
+    type: m.type as Message["type"],
+    timestamp: m.timestamp as string,
+    ...(m.status !== undefined ? { status: m.status as Message["status"] } : {}),
+    ...(m.mode !== undefined ? { mode: m.mode as Message["mode"] } : {}),
+    ...(m.parentId !== undefined ? { parentId: m.parentId as string | null } : {}),
+    ...(m.pinned !== undefined ? { pinned: m.pinned as boolean } : {}),
+    // Sources that aren't web links are dropped rather than kept as clickable links.
+    ...(m.sources !== undefined ? { sources: (m.sources as Source[]).filter(s => isWebUrl(s.uri)).map(({ uri, title }) => ({ uri, title })) } : {}),
+    ...(attachments ? { attachments } : {}),
+    ...(m.deck !== undefined ? { deck: validateDeck(m.deck, `${path}.deck`) } : {}),
+    ...(m.deckHistory !== undefined
+      ? { deckHistory: (m.deckHistory as unknown[]).map((version, i) => validateDeck(version, `${path}.deckHistory[${i}]`)) }
+      : {}),
+    ...(m.images !== undefined ? { images: m.images as string[] } : {}),
+    ...(imageParams ? { imageParams } : {}),
+    ...(m.editOf !== undefined ? { editOf: m.editOf as string } : {}),
+    ...(generatedWith ? { generatedWith } : {}),
+  };
+};
+
+const validateSummary = (value: unknown, messageIds: Set<string>, path: string): ConversationSummary => {
+  expect(isObject(value) && isString(value.content) && isString(value.updatedAt), path, "must be { content, throughMessageId, updatedAt }");
+  const summary = value as Record<string, string>;
+  expect(messageIds.has(summary.throughMessageId), `${path}.throughMessageId`, "must be the id of a message");
+  return { content: summary.content, throughMessageId: summary.throughMessageId, updatedAt: summary.updatedAt };
+};
+
+// Builds the session from the fields it is known to have, so nothing unchecked reaches storage or the model.
+const validateSession = (value: unknown, path: string): ChatSession => {
+  expect(isObject(value), path, "is not an object");
+  const s = value as Record<string, unknown>;
+  expect(isString(s.id) && s.id.length > 0, `${path}.id`, "must be a non-empty string");
+  expect(isString(s.title), `${path}.title`, "must be a string");
+  expect(isString(s.createdAt), `${path}.createdAt`, "must be a string");
+  expect(optional(s.updatedAt, v => isString(v) && !Number.isNaN(Date.parse(v))), `${path}.updatedAt`, "must be a date string");
+  expect(optional(s.tags, v => Array.isArray(v) && v.every(isString)), `${path}.tags`, "must be a list of strings");
+  expect(optional(s.pinned, isBoolean), `${path}.pinned`, "must be true or false");
+  expect(optional(s.archived, isBoolean), `${path}.archived`, "must be true or false");
+  expect(optional(s.folderId, isStringOrNull), `${path}.folderId`, "must be a string or null");
+  expect(optional(s.brandKitId, isStringOrNull), `${path}.brandKitId`, "must be a string or null");
+  expect(optional(s.providerId, isString), `${path}.providerId`, "must be a string");
+  expect(optional(s.activeLeafId, isString), `${path}.activeLeafId`, "must be a string");
+  expect(Array.isArray(s.messages), `${path}.messages`, "must be a list");
+  const messages = (s.messages as unknown[]).map((m, i) => validateMessage(m, `${path}.messages[${i}]`));
+  // A message may only follow one before it, so the conversation tree can't loop.
+  const seenIds = new Set<string>();
+  messages.forEach((m, i) => {
+    expect(!seenIds.has(m.id), `${path}.messages[${i}].id`, "is used by another message");
+    expect(m.parentId === undefined || m.parentId === null || seenIds.has(m.parentId),
+      `${path}.messages[${i}].parentId`, "must be null or the id of an earlier message");
+    seenIds.add(m.id);
+  });
+  expect(s.activeLeafId === undefined || seenIds.has(s.activeLeafId as string), `${path}.activeLeafId`, "must be the id of a message");
+  const persona = s.persona === undefined ? undefined : normalizePersona(s.persona);
+  expect(s.persona === undefined || persona !== null, `${path}.persona`, "must be a persona");
+  const modelSettings = s.modelSettings === undefined ? undefined : normalizeModelSettings(s.modelSettings);
+  const summary = s.summary === undefined ? undefined : validateSummary(s.summary, seenIds, `${path}.summary`);
+  // A provider this app doesn't have is dropped, so the chat uses the default one.
+  const providerId = listProviders().find(p => p.id === s.providerId)?.id;
+
+  return {
+    id: s.id as string,
+    title: s.title as string,
+    messages,
+    createdAt: s.createdAt as string,
+    updatedAt: (s.updatedAt as string | undefined) ?? messages[messages.length - 1]?.timestamp ?? (s.createdAt as string),
+    ...(s.pinned !== undefined ? { pinned: s.pinned as boolean } : {}),
+    ...(s.archived !== undefined ? { archived: s.archived as boolean } : {}),
+    ...(s.folderId !== undefined ? { folderId: s.folderId as string | null } : {}),
+    ...(s.tags !== undefined ? { tags: s.tags as string[] } : {}),
+    ...(providerId ? { providerId } : {}),
+    ...(modelSettings ? { modelSettings } : {}),
+    ...(persona ? { persona } : {}),
+    ...(s.activeLeafId !== undefined ? { activeLeafId: s.activeLeafId as string } : {}),
+    ...(summary ? { summary } : {}),
+    ...(s.brandKitId !== undefined ? { brandKitId: s.brandKitId as string | null } : {}),
+  };
+};
+
+// Accepts the versioned envelope as well as a bare session list, such as the
+// old `chatSessions` localStorage value.
+const readSessions = (text: string): ChatSession[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new SessionImportError("The file is not valid JSON");
+  }
+
+  let sessions: unknown = parsed;
+  if (isObject(parsed)) {
+    expect(parsed.format === EXPORT_FORMAT, "format", `must be "${EXPORT_FORMAT}"`);
+    expect(typeof parsed.version === "number" && parsed.version <= EXPORT_VERSION, "version",
+      `${String(parsed.version)} is newer than this app supports (${EXPORT_VERSION})`);
+    sessions = parsed.sessions;
+  }
+
+  expect(Array.isArray(sessions), "sessions", "must be a list");
+  return (sessions as unknown[]).map((s, i) => validateSession(s, `sessions[${i}]`));
+};
+
+let idCounter = 0;
+const createId = () => `${Date.now()}-${(idCounter++).toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+// Gives imported sessions and messages fresh ids wherever they clash with
+// existing ones (message ids are global in storage), rewriting every reference.
+const remapIds = (session: ChatSession, takenSessionIds: Set<string>, takenMessageIds: Set<string>): ChatSession => {
+  const messageIds = new Map<string, string>();
+  for (const message of session.messages) {
+    const id = takenMessageIds.has(message.id) ? createId() : message.id;
+    messageIds.set(message.id, id);
+    takenMessageIds.add(id);
+  }
+
+  const mapId = (id: string) => messageIds.get(id) ?? id;
+  const sessionId = takenSessionIds.has(session.id) ? createId() : session.id;
+  takenSessionIds.add(sessionId);
+
+  return {
+    ...session,
+    id: sessionId,
+    // Folders are local to each browser, so imported chats start unfiled.
+    folderId: null,
+    messages: session.messages.map((message, i) => ({
+      ...message,
+      id: mapId(message.id),
+      // Pin down the implicit linear parent of pre-branching messages before ids move.
+      parentId: message.parentId !== undefined
+        ? (message.parentId === null ? null : mapId(message.parentId))
+        : (i > 0 ? mapId(session.messages[i - 1].id) : null),
+      // Nothing is generating any more in an imported chat.
+      status: message.status === "in-progress" ? "stopped" : message.status,
+    })),
+    activeLeafId: session.activeLeafId ? mapId(session.activeLeafId) : undefined,
+    summary: session.summary ? { ...session.summary, throughMessageId: mapId(session.summary.throughMessageId) } : undefined,
+  };
+};
+
+// Parses and validates an export file, returning sessions that can be merged into `existing`.
+export const importSessions = (text: string, existing: ChatSession[]): ChatSession[] => {
+  const takenSessionIds = new Set(existing.map(s => s.id));
+  const takenMessageIds = new Set(existing.flatMap(s => s.messages.map(m => m.id)));
+  return readSessions(text).map(session => remapIds(session, takenSessionIds, takenMessageIds));
+};
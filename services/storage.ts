@@ -0,0 +1,388 @@
+import type { AppSettings, Attachment, BrandKit, ChatFolder, ChatSession, ImageStylePreset, Message, Persona } from "../types";
+import { normalizeBrandKit } from "../utils/brandKit";
+import { DEFAULT_STYLE_PRESETS, normalizeStylePreset } from "../utils/imageOptions";
+import { DEFAULT_IMAGE_UPLOAD, normalizeImageUploadSettings } from "../utils/imageProcessing";
+import { normalizePersona } from "../utils/personas";
+import { base64ToBytes, blobToBase64, blobToDataUrl } from "../utils/binary";
+
+/* =========================
+   SCHEMA
+   Sessions, messages and binary payloads live in separate stores so a
+   streaming update only rewrites the message it touches, and large
+   attachments are kept as Blobs instead of base64 inside JSON.
+========================= */
+const DB_NAME = "pkp-ai";
+const DB_VERSION = 1;
+
+const SESSIONS = "sessions";
+const MESSAGES = "messages";
+const ATTACHMENTS = "attachments";
+const META = "meta";
+
+const LEGACY_SESSIONS_KEY = "chatSessions";
+const LEGACY_ACTIVE_KEY = "activeSessionId";
+const FOLDERS_KEY = "folders";
+const SETTINGS_KEY = "settings";
+
+type SessionRecord = Omit<ChatSession, "messages"> & { messageIds: string[] };
+
+// The single inline image messages had in the localStorage format.
+type LegacyAttachment = { data: string; mimeType: string };
+
+type MessageRecord = Omit<Message, "attachments"> & {
+  sessionId: string;
+  // Attachment files live in the attachments store under these keys.
+  attachmentFiles?: { key: string; name: string; mimeType: string; originalSize?: number; originalKey?: string; originalMimeType?: string }[];
+  // Single attachment of messages saved before multiple files were supported.
+  attachmentKey?: string;
+  attachmentMimeType?: string;
+  // Inline image of messages copied from localStorage before `upgradeLegacyMessage` existed.
+  attachment?: LegacyAttachment;
+  // Generated images keep their `data:` URL out of the message record.
+  contentKey?: string;
+};
+
+type AttachmentRecord = {
+  id: string;
+  sessionId: string;
+  blob: Blob;
+};
+
+type MetaRecord = { key: string; value: unknown };
+
+export class StorageQuotaError extends Error {
+  constructor() {
+    super("Browser storage is full");
+    this.name = "StorageQuotaError";
+  }
+}
+
+/* =========================
+   IDB HELPERS
+========================= */
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === "QuotaExceededError" || error.code === 22);
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this browser"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(SESSIONS, { keyPath: "id" });
+        db.createObjectStore(MESSAGES, { keyPath: "id" }).createIndex("sessionId", "sessionId");
+        db.createObjectStore(ATTACHMENTS, { keyPath: "id" }).createIndex("sessionId", "sessionId");
+        db.createObjectStore(META, { keyPath: "key" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Runs `work` in one transaction and maps quota failures to StorageQuotaError.
+const withTransaction = async (
+  stores: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => void | Promise<void>
+): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(stores, mode);
+  const done = transactionDone(tx);
+  try {
+    await work(tx);
+    await done;
+  } catch (error) {
+    done.catch(() => {});
+    if (isQuotaError(error)) throw new StorageQuotaError();
+    throw error;
+  }
+};
+
+/* =========================
+   BINARY CONVERSION
+========================= */
+const base64ToBlob = (data: string, mimeType: string): Blob =>
+  new Blob([base64ToBytes(data)], { type: mimeType });
+
+const dataUrlToBlob = (url: string): Blob | null => {
+  const match = url.match(/^data:([^;,]+);base64,(.*)$/s);
+  return match ? base64ToBlob(match[2], match[1]) : null;
+};
+
+/* =========================
+   RECORD MAPPING
+========================= */
+// Moves a legacy `attachment` into `attachments`, as `validateMessage` does for imports.
+const upgradeLegacyMessage = <T extends { attachments?: Attachment[] }>(message: T & { attachment?: LegacyAttachment }): T => {
+  const { attachment, ...rest } = message;
+  if (!attachment || typeof attachment.data !== "string" || rest.attachments?.length) return rest as T;
+  return { ...rest, attachments: [{ name: "image", mimeType: attachment.mimeType, data: attachment.data }] } as T;
+};
+// Message objects are replaced, never mutated, so identity tells us what is already on disk.
+const persistedMessages = new WeakSet<Message>();
+
+const toRecords = (sessionId: string, message: Message) => {
+  const { attachments, ...rest } = message;
+  const record: MessageRecord = { ...rest, sessionId };
+  const blobs: AttachmentRecord[] = [];
+
+  if (attachments?.length) {
+    record.attachmentFiles = attachments.map((attachment, i) => {
+      const key = `${message.id}:attachment:${i}`;
+      blobs.push({ id: key, sessionId, blob: base64ToBlob(attachment.data, attachment.mimeType) });
+      const file: NonNullable<MessageRecord["attachmentFiles"]>[number] = { key, name: attachment.name, mimeType: attachment.mimeType };
+      if (attachment.originalSize !== undefined) file.originalSize = attachment.originalSize;
+      if (attachment.original) {
+        file.originalKey = `${key}:original`;
+        file.originalMimeType = attachment.original.mimeType;
+        blobs.push({ id: file.originalKey, sessionId, blob: base64ToBlob(attachment.original.data, attachment.original.mimeType) });
+      }
+      return file;
+    });
+  }
+
+  if (message.type === "image" && message.content.startsWith("data:")) {
+    const blob = dataUrlToBlob(message.content);
+    if (blob) {
+      record.contentKey = `${message.id}:content`;
+      record.content = "";
+      blobs.push({ id: record.contentKey, sessionId, blob });
+    }
+  }
+
+  return { record, blobs };
+};
+
+const fromRecord = async (record: MessageRecord, blobs: Map<string, Blob>): Promise<Message> => {
+  const { sessionId: _sessionId, attachmentFiles, attachmentKey, attachmentMimeType, contentKey, attachment, ...message } = record;
+  const result: Message = upgradeLegacyMessage<Message>({ ...message, attachment });
+
+  const files: NonNullable<MessageRecord["attachmentFiles"]> = attachmentFiles
+    ?? (attachmentKey ? [{ key: attachmentKey, name: "image", mimeType: attachmentMimeType ?? "" }] : []);
+  const attachments: Attachment[] = [];
+  for (const file of files) {
+    const blob = blobs.get(file.key);
+    if (!blob) continue;
+    const attachment: Attachment = { name: file.name, mimeType: file.mimeType || blob.type, data: await blobToBase64(blob) };
+    if (file.originalSize !== undefined) attachment.originalSize = file.originalSize;
+    const original = file.originalKey ? blobs.get(file.originalKey) : undefined;
+    if (original) attachment.original = { mimeType: file.originalMimeType || original.type, data: await blobToBase64(original) };
+    attachments.push(attachment);
+  }
+  if (attachments.length) result.attachments = [...(result.attachments ?? []), ...attachments];
+
+  const contentBlob = contentKey ? blobs.get(contentKey) : undefined;
+  if (contentBlob) {
+    result.content = await blobToDataUrl(contentBlob);
+  }
+
+  return result;
+};
+
+/* =========================
+   MIGRATION
+========================= */
+const MIGRATION_KEY = "migratedFromLocalStorage";
+
+// One-time copy of the old single-key localStorage format. The legacy keys are
+// only removed after every session was written successfully.
+const migrateFromLocalStorage = async (): Promise<void> => {
+  const db = await openDb();
+  const flag = await requestToPromise<MetaRecord | undefined>(
+    db.transaction(META).objectStore(META).get(MIGRATION_KEY)
+  );
+  if (flag?.value) return;
+
+  let legacySessions: ChatSession[] = [];
+  try {
+    const saved = localStorage.getItem(LEGACY_SESSIONS_KEY);
+    if (saved) legacySessions = JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse sessions from local storage", e);
+    // Leave the data in place so nothing is lost; the next load retries.
+    return;
+  }
+
+  for (const session of legacySessions) {
+    await saveSession({ ...session, messages: (session.messages ?? []).map(m => upgradeLegacyMessage<Message>(m)) });
+  }
+
+  const legacyActiveId = localStorage.getItem(LEGACY_ACTIVE_KEY);
+  await withTransaction([META], "readwrite", (tx) => {
+    const meta = tx.objectStore(META);
+    if (legacyActiveId) meta.put({ key: LEGACY_ACTIVE_KEY, value: legacyActiveId });
+    meta.put({ key: MIGRATION_KEY, value: true });
+  });
+
+  localStorage.removeItem(LEGACY_SESSIONS_KEY);
+  localStorage.removeItem(LEGACY_ACTIVE_KEY);
+};
+
+/* =========================
+   PUBLIC API
+========================= */
+export async function loadSessions(): Promise<{ sessions: ChatSession[]; activeSessionId: string | null }> {
+  await migrateFromLocalStorage();
+
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, MESSAGES, ATTACHMENTS, META]);
+  // Issue every read up front: the transaction closes once we await anything else.
+  const [sessionRecords, messageRecords, attachmentRecords, active] = await Promise.all([
+    requestToPromise<SessionRecord[]>(tx.objectStore(SESSIONS).getAll()),
+    requestToPromise<MessageRecord[]>(tx.objectStore(MESSAGES).getAll()),
+    requestToPromise<AttachmentRecord[]>(tx.objectStore(ATTACHMENTS).getAll()),
+    requestToPromise<MetaRecord | undefined>(tx.objectStore(META).get(LEGACY_ACTIVE_KEY)),
+  ]);
+
+  const blobs = new Map(attachmentRecords.map(a => [a.id, a.blob]));
+  const messagesById = new Map<string, Message>();
+  for (const record of messageRecords) {
+    const message = await fromRecord(record, blobs);
+    persistedMessages.add(message);
+    messagesById.set(message.id, message);
+  }
+
+  const sessions = sessionRecords
+    .map(({ messageIds, ...session }): ChatSession => {
+      const messages = messageIds.map(id => messagesById.get(id)).filter((m): m is Message => Boolean(m));
+      return {
+        ...session,
+        messages,
+        // Sessions saved before activity tracking fall back to their newest message.
+        updatedAt: session.updatedAt ?? messages[messages.length - 1]?.timestamp ?? session.createdAt,
+      };
+    })
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  return { sessions, activeSessionId: (active?.value as string | undefined) ?? null };
+}
+
+export async function saveSession(session: ChatSession): Promise<void> {
+  const { messages, ...rest } = session;
+  const changed = messages.filter(m => !persistedMessages.has(m));
+  const converted = changed.map(m => toRecords(session.id, m));
+
+  await withTransaction([SESSIONS, MESSAGES, ATTACHMENTS], "readwrite", (tx) => {
+    const sessionStore = tx.objectStore(SESSIONS);
+    const messageStore = tx.objectStore(MESSAGES);
+    const attachmentStore = tx.objectStore(ATTACHMENTS);
+
+    sessionStore.put({ ...rest, messageIds: messages.map(m => m.id) } satisfies SessionRecord);
+    for (const { record, blobs } of converted) {
+      messageStore.put(record);
+      // Requests run in order: clearing first drops attachments and originals the message no longer has.
+      attachmentStore.delete(IDBKeyRange.bound(`${record.id}:`, `${record.id}:\uffff`));
+      blobs.forEach(blob => attachmentStore.put(blob));
+    }
+
+    // Drop records of messages that are no longer part of the session.
+    const keep = new Set(messages.map(m => m.id));
+    const cursorRequest = messageStore.index("sessionId").openKeyCursor(IDBKeyRange.only(session.id));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      const id = cursor.primaryKey as string;
+      if (!keep.has(id)) {
+        messageStore.delete(id);
+        // Every blob of the message: its attachments and its image content.
+        attachmentStore.delete(IDBKeyRange.bound(`${id}:`, `${id}:\uffff`));
+      }
+      cursor.continue();
+    };
+  });
+
+  changed.forEach(m => persistedMessages.add(m));
+}
+
+export async function deleteSession(sessionId: string): Promise<void> {
+  await withTransaction([SESSIONS, MESSAGES, ATTACHMENTS], "readwrite", (tx) => {
+    tx.objectStore(SESSIONS).delete(sessionId);
+    for (const storeName of [MESSAGES, ATTACHMENTS]) {
+      const store = tx.objectStore(storeName);
+      const request = store.index("sessionId").openKeyCursor(IDBKeyRange.only(sessionId));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        store.delete(cursor.primaryKey);
+        cursor.continue();
+      };
+    }
+  });
+}
+
+export async function loadFolders(): Promise<ChatFolder[]> {
+  const db = await openDb();
+  const record = await requestToPromise<MetaRecord | undefined>(
+    db.transaction(META).objectStore(META).get(FOLDERS_KEY)
+  );
+  return (record?.value as ChatFolder[] | undefined) ?? [];
+}
+
+export async function saveFolders(folders: ChatFolder[]): Promise<void> {
+  await withTransaction([META], "readwrite", (tx) => {
+    tx.objectStore(META).put({ key: FOLDERS_KEY, value: folders });
+  });
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  brandKits: [],
+  imageStylePresets: DEFAULT_STYLE_PRESETS,
+  imageUpload: DEFAULT_IMAGE_UPLOAD,
+  personas: [],
+  autoRouting: true,
+};
+
+// Settings saved by an older version lack newer fields, which get their defaults.
+export async function loadSettings(): Promise<AppSettings> {
+  const db = await openDb();
+  const record = await requestToPromise<MetaRecord | undefined>(
+    db.transaction(META).objectStore(META).get(SETTINGS_KEY)
+  );
+  const saved = (record?.value ?? {}) as Partial<AppSettings>;
+  return {
+    ...DEFAULT_SETTINGS,
+    ...saved,
+    brandKits: (saved.brandKits ?? []).map(normalizeBrandKit).filter((kit): kit is BrandKit => Boolean(kit)),
+    imageStylePresets: (saved.imageStylePresets ?? DEFAULT_STYLE_PRESETS).map(normalizeStylePreset)
+      .filter((preset): preset is ImageStylePreset => Boolean(preset)),
+    imageUpload: normalizeImageUploadSettings(saved.imageUpload),
+    personas: (saved.personas ?? []).map(normalizePersona).filter((persona): persona is Persona => Boolean(persona)),
+    autoRouting: typeof saved.autoRouting === "boolean" ? saved.autoRouting : DEFAULT_SETTINGS.autoRouting,
+  };
+}
+
+export async function saveSettings(settings: AppSettings): Promise<void> {
+  await withTransaction([META], "readwrite", (tx) => {
+    tx.objectStore(META).put({ key: SETTINGS_KEY, value: settings });
+  });
+}
+
+export async function saveActiveSessionId(sessionId: string | null): Promise<void> {
+  await withTransaction([META], "readwrite", (tx) => {
+    const meta = tx.objectStore(META);
+    if (sessionId) meta.put({ key: LEGACY_ACTIVE_KEY, value: sessionId });
+    else meta.delete(LEGACY_ACTIVE_KEY);
+  });
+}
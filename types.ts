@@ -1,9 +1,106 @@
 
+export type ProviderId = 'gemini' | 'openai-compatible';
+
 export interface Source {
   uri: string;
   title: string;
 }
 
+export type SlideLayout = 'title' | 'section' | 'bullets' | 'two-column' | 'image' | 'quote';
+
+export interface SlideColumn {
+  heading?: string;
+  bullets: string[];
+}
+
+export interface Slide {
+  id: string;
+  layout: SlideLayout;
+  title: string;
+  subtitle?: string;
+  bullets?: string[];
+  columns?: SlideColumn[]; // two-column layout
+  quote?: string;
+  attribution?: string;
+  image?: {
+    url?: string; // without one, the renderer shows `alt` as a placeholder
+    alt: string;
+  };
+  notes?: string; // speaker notes, never shown on the slide
+}
+
+export type BrandFont = 'sans' | 'serif' | 'humanist' | 'classic' | 'mono';
+
+export type TitleSlideLayout = 'centered' | 'left' | 'banner';
+
+export interface BrandColors {
+  background: string; // all #rrggbb
+  surface: string; // panels and columns
+  text: string;
+  muted: string; // subtitles, captions, footer
+  accent: string;
+}
+
+// Look of a deck. Applied by the renderer and exporters; the model only learns the name and footer.
+export interface BrandKit {
+  id: string;
+  name: string;
+  logo?: string; // image data URL
+  colors: BrandColors;
+  headingFont: BrandFont;
+  bodyFont: BrandFont;
+  footerText: string; // may be empty
+  titleLayout: TitleSlideLayout;
+}
+
+export interface Deck {
+  // Version bookkeeping, set by the app; decks from before versioning have none.
+  id?: string; // shared by every version of the same deck
+  version?: number;
+  note?: string; // what produced this version, e.g. the edit instruction
+  createdAt?: string;
+  theme?: BrandKit; // copy of the brand kit applied to the deck; without one it has the default look
+  title: string;
+  subtitle?: string;
+  slides: Slide[];
+}
+
+// A file sent with a user message: images and PDFs go to the model as inline data, text files as text.
+export interface Attachment {
+  name: string;
+  mimeType: string;
+  data: string; // base64 encoded data
+  // Set for images that were downscaled and re-encoded before upload.
+  originalSize?: number; // bytes
+  original?: { mimeType: string; data: string }; // the untouched file, kept locally and never sent
+}
+
+// How attached images are prepared before they are stored and sent.
+export interface ImageUploadSettings {
+  maxDimension: number; // longest side in pixels
+  format: 'webp' | 'jpeg';
+  quality: number; // 0–1
+  keepOriginal: boolean;
+}
+
+export type ImageAspectRatio = '1:1' | '4:3' | '3:4' | '16:9' | '9:16';
+
+// What a message sent in Chat mode is classified as asking for.
+export type Intent = 'text' | 'image' | 'presentation' | 'edit-presentation';
+
+export interface ImageStylePreset {
+  id: string;
+  name: string;
+  prompt: string; // appended to the user's prompt, e.g. "watercolor, soft pastel palette"
+}
+
+// What an image reply was generated with, so it can be reproduced or re-rolled.
+export interface ImageParams {
+  aspectRatio: ImageAspectRatio;
+  count: number;
+  style?: ImageStylePreset; // copy of the preset at generation time
+}
+
 export interface Message {
   id: string;
   role: 'user' | 'assistant';
@@ -11,12 +108,62 @@ export interface Message {
   type: 'text' | 'image' | 'loading' | 'error';
   sources?: Source[];
   timestamp: string;
-  status?: 'in-progress' | 'complete';
+  status?: 'in-progress' | 'complete' | 'stopped';
   mode?: 'text' | 'image' | 'presentation';
-  attachment?: {
-    data: string; // base64 encoded data
-    mimeType: string;
-  };
+  attachments?: Attachment[];
+  parentId?: string | null; // message this one follows; siblings are alternative branches
+  pinned?: boolean; // always sent to the model verbatim, however old
+  deck?: Deck; // structured presentation; older presentations are raw HTML in `content`
+  deckHistory?: Deck[]; // versions this message's deck replaced in place, oldest first
+  images?: string[]; // every variation of an image reply; `content` is the selected one
+  imageParams?: ImageParams;
+  editOf?: string; // image message this image reply was edited from
+  generatedWith?: GeneratedWith; // assistant replies only
+}
+
+// Sampling parameters sent with a request; unset ones use the model's defaults.
+export interface GenerationConfig {
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  thinkingBudget?: number; // tokens; 0 turns thinking off, -1 lets the model decide
+}
+
+// A chat's model choice; model names come from the provider's list, unset means its default.
+export interface ModelSettings extends GenerationConfig {
+  textModel?: string;
+  imageModel?: string;
+}
+
+// The model and parameters a reply was generated with, kept for reference.
+export interface GeneratedWith {
+  providerId: ProviderId;
+  model: string;
+  config: GenerationConfig;
+}
+
+export interface ConversationSummary {
+  content: string;
+  throughMessageId: string; // last message folded into the summary
+  updatedAt: string;
+}
+
+export interface ChatFolder {
+  id: string;
+  name: string;
+  createdAt: string;
+  collapsed?: boolean;
+}
+
+// A reusable set of instructions a chat can be started with.
+export interface Persona {
+  id: string;
+  name: string;
+  icon: string; // an emoji
+  instructions: string; // added to the system prompt of every request in the chat
+  defaultMode: 'text' | 'image' | 'presentation';
+  providerId?: ProviderId; // model new chats with the persona start on; the app default when unset
+  useSearch: boolean; // ground chat replies with web search
 }
 
 export interface ChatSession {
@@ -24,4 +171,24 @@ export interface ChatSession {
   title: string;
   messages: Message[];
   createdAt: string;
+  updatedAt: string; // last activity, used for sidebar ordering
+  pinned?: boolean;
+  archived?: boolean;
+  folderId?: string | null;
+  tags?: string[];
+  providerId?: ProviderId;
+  modelSettings?: ModelSettings;
+  persona?: Persona; // copy taken when the chat was created, edited per chat from then on
+  activeLeafId?: string; // last message of the branch currently shown
+  summary?: ConversationSummary; // running summary of turns that no longer fit the token budget
+  brandKitId?: string | null; // brand kit for new decks in this chat
+}
+
+// App-wide preferences, edited in the settings dialog.
+export interface AppSettings {
+  brandKits: BrandKit[];
+  imageStylePresets: ImageStylePreset[];
+  imageUpload: ImageUploadSettings;
+  personas: Persona[];
+  autoRouting: boolean; // let a classifier pick the mode for messages sent in Chat mode
 }
\ No newline at end of file
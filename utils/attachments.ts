@@ -0,0 +1,147 @@
+import type { Attachment, ImageUploadSettings } from "../types";
+import { canPreprocessImage, preprocessImage } from "./imageProcessing";
+import { base64ToBytes, blobToBase64 } from "./binary";
+
+/* =========================
+   FILE TYPES
+   Images and PDFs go to the model as inline data; text files (plain text,
+   Markdown, CSV, source code) are decoded and sent as text.
+========================= */
+export type AttachmentKind = "image" | "pdf" | "text";
+
+// Browsers report no type, or a wrong one (.ts as video/mp2t), for most source files,
+// so text files are recognised by extension first.
+const TEXT_EXTENSIONS: Record<string, string> = {
+  txt: "text/plain",
+  md: "text/markdown",
+  markdown: "text/markdown",
+  csv: "text/csv",
+  tsv: "text/tab-separated-values",
+  json: "application/json",
+  xml: "text/xml",
+  yaml: "text/yaml",
+  yml: "text/yaml",
+  html: "text/html",
+  css: "text/css",
+  js: "text/javascript",
+  jsx: "text/javascript",
+  mjs: "text/javascript",
+  ts: "text/x-typescript",
+  tsx: "text/x-typescript",
+  py: "text/x-python",
+  java: "text/x-java",
+  kt: "text/x-kotlin",
+  c: "text/x-c",
+  h: "text/x-c",
+  cpp: "text/x-c++",
+  cs: "text/x-csharp",
+  go: "text/x-go",
+  rs: "text/x-rust",
+  rb: "text/x-ruby",
+  php: "text/x-php",
+  swift: "text/x-swift",
+  sh: "text/x-shellscript",
+  sql: "text/x-sql",
+};
+
+// For the file picker; drag-and-drop and paste are checked with `getFileKind`.
+export const ATTACHMENT_ACCEPT = ["image/*", "application/pdf", "text/*", ...Object.keys(TEXT_EXTENSIONS).map(ext => `.${ext}`)].join(",");
+
+export const MAX_ATTACHMENTS = 10;
+// Gemini rejects requests with more than 20 MB of inline data, so the files of one
+// message share a total below that, leaving room for the prompt and history.
+export const MAX_ATTACHMENT_BYTES = 15 * 1024 * 1024;
+export const MAX_TOTAL_ATTACHMENT_BYTES = 18 * 1024 * 1024;
+// Photos are checked after downscaling, so larger originals are fine.
+const MAX_SOURCE_IMAGE_BYTES = 50 * 1024 * 1024;
+
+const extensionOf = (name: string) => name.split(".").pop()?.toLowerCase() ?? "";
+
+export const getAttachmentKind = (attachment: Pick<Attachment, "mimeType">): AttachmentKind =>
+  attachment.mimeType.startsWith("image/") ? "image"
+    : attachment.mimeType === "application/pdf" ? "pdf"
+    : "text";
+
+// The MIME type a file is stored with, or null when it cannot be attached.
+const getFileMimeType = (file: File): string | null => {
+  const textType = TEXT_EXTENSIONS[extensionOf(file.name)];
+  if (textType) return textType;
+  if (file.type.startsWith("image/") || file.type === "application/pdf") return file.type;
+  if (file.type.startsWith("text/")) return file.type;
+  return null;
+};
+
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttachmentError";
+  }
+}
+
+/* =========================
+   READING
+========================= */
+// Images are downscaled and re-encoded with `imageSettings` when given.
+export const readAttachment = async (file: File, imageSettings?: ImageUploadSettings): Promise<Attachment> => {
+  const mimeType = getFileMimeType(file);
+  if (!mimeType) {
+    throw new AttachmentError(`${file.name} can't be attached. Supported files are images, PDFs, text, Markdown, CSV and source code.`);
+  }
+  const preprocess = imageSettings && canPreprocessImage(mimeType);
+  const limit = preprocess ? MAX_SOURCE_IMAGE_BYTES : MAX_ATTACHMENT_BYTES;
+  if (file.size > limit) {
+    throw new AttachmentError(`${file.name} is larger than ${formatFileSize(limit)}.`);
+  }
+
+  // Some browsers give pasted files no name.
+  const name = file.name || `pasted.${mimeType.split("/")[1] ?? "bin"}`;
+  if (!preprocess) return { name, mimeType, data: await blobToBase64(file) };
+
+  let attachment: Attachment;
+  try {
+    attachment = await preprocessImage(file, imageSettings);
+  } catch {
+    throw new AttachmentError(`${name} could not be read as an image.`);
+  }
+  if (getAttachmentSize(attachment) > MAX_ATTACHMENT_BYTES) {
+    throw new AttachmentError(`${name} is still larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)} after resizing; try a smaller maximum size.`);
+  }
+  return attachment;
+};
+
+export const decodeAttachmentText = (attachment: Attachment): string =>
+  new TextDecoder().decode(base64ToBytes(attachment.data));
+
+// Wraps text in a code fence longer than any backtick run inside it, so the file can't close it early.
+export const toFencedBlock = (text: string): string => {
+  const runs: string[] = text.match(/`+/g) ?? [];
+  const longestRun = runs.reduce((longest, run) => Math.max(longest, run.length), 0);
+  const fence = "`".repeat(Math.max(3, longestRun + 1));
+  return `${fence}\n${text}\n${fence}`;
+};
+
+export const getAttachmentSize = (attachment: Attachment): number =>
+  Math.floor(attachment.data.length * 3 / 4) - (attachment.data.endsWith("==") ? 2 : attachment.data.endsWith("=") ? 1 : 0);
+
+export const formatFileSize = (bytes: number): string =>
+  bytes < 1024 ? `${bytes} B`
+    : bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Splits `added` into the attachments that still fit next to `existing` within
+// the per-message total, in order, and those that don't.
+export const fitAttachments = (existing: Attachment[], added: Attachment[]): { accepted: Attachment[]; rejected: Attachment[] } => {
+  let total = existing.reduce((sum, attachment) => sum + getAttachmentSize(attachment), 0);
+  const accepted: Attachment[] = [];
+  const rejected: Attachment[] = [];
+  for (const attachment of added) {
+    const size = getAttachmentSize(attachment);
+    if (total + size > MAX_TOTAL_ATTACHMENT_BYTES) {
+      rejected.push(attachment);
+    } else {
+      accepted.push(attachment);
+      total += size;
+    }
+  }
+  return { accepted, rejected };
+};
@@ -0,0 +1,21 @@
+/* =========================
+   BASE64 AND BLOBS
+========================= */
+// Padded standard base64, as produced by `btoa` and `FileReader`.
+export const isBase64 = (value: unknown): value is string =>
+  typeof value === "string" && value.length % 4 === 0 && /^[A-Za-z0-9+/]*={0,2}$/.test(value);
+
+export const base64ToBytes = (data: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(data), c => c.charCodeAt(0));
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// The base64 payload of `blob`, without the `data:` prefix.
+export const blobToBase64 = async (blob: Blob): Promise<string> =>
+  (await blobToDataUrl(blob)).split(",")[1] ?? "";
@@ -0,0 +1,85 @@
+import type { BrandColors, BrandFont, BrandKit, TitleSlideLayout } from "../types";
+import { isObject } from "./guards";
+
+/* =========================
+   FONTS
+   Each choice maps to a CSS stack for the renderer, a font PowerPoint ships
+   with, and the closest of the standard PDF fonts.
+========================= */
+export const BRAND_FONTS: Record<BrandFont, { label: string; css: string; pptx: string; pdf: "helvetica" | "times" | "courier" }> = {
+  sans: { label: "Modern sans", css: "Inter, system-ui, -apple-system, 'Segoe UI', sans-serif", pptx: "Calibri", pdf: "helvetica" },
+  humanist: { label: "Humanist sans", css: "'Trebuchet MS', 'Gill Sans', 'Segoe UI', sans-serif", pptx: "Trebuchet MS", pdf: "helvetica" },
+  classic: { label: "Classic sans", css: "Arial, Helvetica, sans-serif", pptx: "Arial", pdf: "helvetica" },
+  serif: { label: "Serif", css: "Georgia, 'Times New Roman', serif", pptx: "Georgia", pdf: "times" },
+  mono: { label: "Monospace", css: "'JetBrains Mono', Consolas, 'Courier New', monospace", pptx: "Consolas", pdf: "courier" },
+};
+
+export const TITLE_SLIDE_LAYOUTS: Record<TitleSlideLayout, string> = {
+  centered: "Centered",
+  left: "Left aligned",
+  banner: "Accent background",
+};
+
+/* =========================
+   DEFAULTS
+   The look decks have without a brand kit; matches SLIDE_STYLES.
+========================= */
+export const DEFAULT_BRAND_COLORS: BrandColors = {
+  background: "#0b1020",
+  surface: "#1a1f2e",
+  text: "#f3f4f6",
+  muted: "#9ca3af",
+  accent: "#818cf8",
+};
+
+export const DEFAULT_FOOTER = "Generated by PKP.ai";
+
+export const DEFAULT_THEME: BrandKit = {
+  id: "default",
+  name: "PKP.ai",
+  colors: DEFAULT_BRAND_COLORS,
+  headingFont: "sans",
+  bodyFont: "sans",
+  footerText: DEFAULT_FOOTER,
+  titleLayout: "centered",
+};
+
+export const createBrandKit = (name: string): BrandKit => ({
+  ...DEFAULT_THEME,
+  id: `brand-${Date.now().toString(36)}`,
+  name,
+  footerText: name,
+});
+
+/* =========================
+   NORMALIZATION
+   Brand kits come back from storage and imported chats; anything invalid
+   falls back to the default look.
+========================= */
+const isHexColor = (value: unknown): value is string => typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value);
+
+const pick = <T extends string>(value: unknown, options: Record<T, unknown>, fallback: T): T =>
+  typeof value === "string" && value in options ? value as T : fallback;
+
+export const normalizeBrandKit = (value: unknown): BrandKit | null => {
+  if (!isObject(value) || typeof value.id !== "string" || typeof value.name !== "string") return null;
+  const colors = isObject(value.colors) ? value.colors : {};
+  const color = (key: keyof BrandColors) => isHexColor(colors[key]) ? colors[key] as string : DEFAULT_BRAND_COLORS[key];
+  const logo = typeof value.logo === "string" && /^data:image\//i.test(value.logo) ? value.logo : undefined;
+  return {
+    id: value.id,
+    name: value.name.trim() || "Brand kit",
+    ...(logo ? { logo } : {}),
+    colors: {
+      background: color("background"),
+      surface: color("surface"),
+      text: color("text"),
+      muted: color("muted"),
+      accent: color("accent"),
+    },
+    headingFont: pick(value.headingFont, BRAND_FONTS, "sans"),
+    bodyFont: pick(value.bodyFont, BRAND_FONTS, "sans"),
+    footerText: typeof value.footerText === "string" ? value.footerText : DEFAULT_FOOTER,
+    titleLayout: pick(value.titleLayout, TITLE_SLIDE_LAYOUTS, "centered"),
+  };
+};
@@ -0,0 +1,75 @@
+import type { ChatSession, Message } from "../types";
+
+/* =========================
+   CONVERSATION TREE
+   All branches of a chat live in `session.messages`; each message points at
+   the message it follows through `parentId`, and `activeLeafId` selects the
+   branch on screen. Messages saved before branching existed have no
+   `parentId` and are read as a linear chain in array order.
+========================= */
+
+const buildParentMap = (messages: Message[]): Map<string, string | null> => {
+  const parents = new Map<string, string | null>();
+  messages.forEach((m, i) => {
+    parents.set(m.id, m.parentId !== undefined ? m.parentId : (messages[i - 1]?.id ?? null));
+  });
+  return parents;
+};
+
+export const getParentId = (session: ChatSession, message: Message): string | null =>
+  buildParentMap(session.messages).get(message.id) ?? null;
+
+const getChildren = (messages: Message[], parents: Map<string, string | null>, parentId: string | null) =>
+  messages.filter(m => parents.get(m.id) === parentId);
+
+// Order of creation; unparseable timestamps count as oldest.
+const createdAt = (message: Message) => Date.parse(message.timestamp) || 0;
+
+// Follows the most recent child at each step, so returning to a branch shows where it was left.
+// Array order isn't time order after imports and restores, so children are compared by timestamp.
+const findLatestLeaf = (messages: Message[], parents: Map<string, string | null>, fromId: string): string => {
+  let current = fromId;
+  // Guards against cycles in imported data.
+  const visited = new Set<string>();
+  while (!visited.has(current)) {
+    visited.add(current);
+    const children = getChildren(messages, parents, current);
+    if (!children.length) return current;
+    current = children.reduce((latest, child) => (createdAt(child) >= createdAt(latest) ? child : latest)).id;
+  }
+  return current;
+};
+
+// Messages from the root to the active leaf, in conversation order.
+export const getActivePath = (session: ChatSession): Message[] => {
+  const { messages } = session;
+  if (!messages.length) return [];
+
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const parents = buildParentMap(messages);
+  const leafId = session.activeLeafId && byId.has(session.activeLeafId)
+    ? session.activeLeafId
+    : messages[messages.length - 1].id;
+
+  const path: Message[] = [];
+  let current: string | null = leafId;
+  // Guards against cycles in imported data.
+  const visited = new Set<string>();
+  while (current && !visited.has(current)) {
+    visited.add(current);
+    const message = byId.get(current);
+    if (!message) break;
+    path.unshift(message);
+    current = parents.get(current) ?? null;
+  }
+  return path;
+};
+
+export const getSiblings = (session: ChatSession, message: Message): Message[] => {
+  const parents = buildParentMap(session.messages);
+  return getChildren(session.messages, parents, parents.get(message.id) ?? null);
+};
+
+// Leaf to activate when the user switches to `messageId`'s branch.
+export const getLeafForBranch = (session: ChatSession, messageId: string): string =>
+  findLatestLeaf(session.messages, buildParentMap(session.messages), messageId);
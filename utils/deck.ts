@@ -0,0 +1,314 @@
+import type { Deck, Message, Slide, SlideColumn, SlideLayout } from "../types";
+import { normalizeBrandKit } from "./brandKit";
+import { isObject } from "./guards";
+
+/* =========================
+   DECK SCHEMA
+   Handed to the model as structured output. Kept to the JSON Schema subset
+   that Gemini and OpenAI-compatible servers both accept.
+========================= */
+export const SLIDE_LAYOUTS: SlideLayout[] = ["title", "section", "bullets", "two-column", "image", "quote"];
+
+const stringList = { type: "array", items: { type: "string" } };
+
+const SLIDE_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    layout: { type: "string", enum: SLIDE_LAYOUTS },
+    title: { type: "string" },
+    subtitle: { type: "string" },
+    bullets: stringList,
+    columns: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { heading: { type: "string" }, bullets: stringList },
+        required: ["bullets"],
+      },
+    },
+    quote: { type: "string" },
+    attribution: { type: "string" },
+    image: {
+      type: "object",
+      properties: { url: { type: "string" }, alt: { type: "string" } },
+      required: ["alt"],
+    },
+    notes: { type: "string" },
+  },
+  required: ["layout", "title"],
+};
+
+export const DECK_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    subtitle: { type: "string" },
+    slides: { type: "array", items: SLIDE_JSON_SCHEMA },
+  },
+  required: ["title", "slides"],
+};
+
+// Reply shape when only some slides are rewritten.
+export const SLIDES_JSON_SCHEMA = {
+  type: "object",
+  properties: { slides: { type: "array", items: SLIDE_JSON_SCHEMA } },
+  required: ["slides"],
+};
+
+/* =========================
+   NORMALIZATION
+   Model output and imported files are untrusted: unknown layouts fall back
+   to bullets, blank strings are dropped and every slide gets an id.
+========================= */
+const asText = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+const asTextList = (value: unknown): string[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const list = value.map(asText).filter((t): t is string => Boolean(t));
+  return list.length ? list : undefined;
+};
+
+let slideCounter = 0;
+export const createSlideId = () => `slide-${Date.now().toString(36)}-${(slideCounter++).toString(36)}`;
+
+const normalizeColumn = (value: unknown): SlideColumn | null => {
+  if (!isObject(value)) return null;
+  const bullets = asTextList(value.bullets);
+  const heading = asText(value.heading);
+  if (!bullets && !heading) return null;
+  return { ...(heading ? { heading } : {}), bullets: bullets ?? [] };
+};
+
+const normalizeSlide = (value: unknown): Slide | null => {
+  if (!isObject(value)) return null;
+  const layout = SLIDE_LAYOUTS.includes(value.layout as SlideLayout) ? value.layout as SlideLayout : "bullets";
+  const columns = Array.isArray(value.columns)
+    ? value.columns.map(normalizeColumn).filter((c): c is SlideColumn => Boolean(c))
+    : [];
+  const image = isObject(value.image) && asText(value.image.alt)
+    ? { ...(asText(value.image.url) ? { url: asText(value.image.url) } : {}), alt: asText(value.image.alt)! }
+    : undefined;
+
+  const slide: Slide = {
+    id: asText(value.id) ?? createSlideId(),
+    layout,
+    title: asText(value.title) ?? "",
+    subtitle: asText(value.subtitle),
+    bullets: asTextList(value.bullets),
+    columns: columns.length ? columns : undefined,
+    quote: asText(value.quote),
+    attribution: asText(value.attribution),
+    image,
+    notes: asText(value.notes),
+  };
+  // Drop the unset optional fields so stored decks stay compact.
+  (Object.keys(slide) as (keyof Slide)[]).forEach(key => slide[key] === undefined && delete slide[key]);
+  return slide;
+};
+
+// Returns null when nothing presentable is left.
+export const normalizeDeck = (value: unknown): Deck | null => {
+  if (!isObject(value) || !Array.isArray(value.slides)) return null;
+  const slides = value.slides.map(normalizeSlide).filter((s): s is Slide => Boolean(s));
+  if (!slides.length) return null;
+  const subtitle = asText(value.subtitle);
+  const id = asText(value.id);
+  const note = asText(value.note);
+  const createdAt = asText(value.createdAt);
+  const theme = value.theme === undefined ? null : normalizeBrandKit(value.theme);
+  return {
+    ...(id ? { id } : {}),
+    ...(typeof value.version === "number" && value.version > 0 ? { version: Math.floor(value.version) } : {}),
+    ...(note ? { note } : {}),
+    ...(createdAt ? { createdAt } : {}),
+    ...(theme ? { theme } : {}),
+    title: asText(value.title) ?? slides[0].title ?? "Presentation",
+    ...(subtitle ? { subtitle } : {}),
+    slides,
+  };
+};
+
+/* =========================
+   STREAMING
+   The deck arrives as one JSON document. Until it is complete, the slide
+   objects that are already closed can still be read on their own.
+========================= */
+export interface PartialDeck {
+  title?: string;
+  slides: Slide[];
+}
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+// Reads the deck title and every finished slide from an incomplete reply.
+export const parsePartialDeck = (text: string): PartialDeck => {
+  const slidesKey = text.search(/"slides"\s*:\s*\[/);
+  const titleMatch = text.slice(0, slidesKey === -1 ? undefined : slidesKey).match(/"title"\s*:\s*("(?:[^"\\]|\\.)*")/);
+  const title = titleMatch ? asText(parseJson(titleMatch[1])) : undefined;
+  if (slidesKey === -1) return { title, slides: [] };
+
+  const slides: Slide[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+  for (let i = text.indexOf("[", slidesKey) + 1; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === "{") {
+      if (depth++ === 0) start = i;
+    } else if (ch === "}") {
+      if (--depth === 0) {
+        const slide = normalizeSlide(parseJson(text.slice(start, i + 1)));
+        if (slide) slides.push(slide);
+      }
+    } else if (ch === "]" && depth === 0) {
+      break;
+    }
+  }
+  return { title, slides };
+};
+
+// Parses a finished structured-output reply; some servers wrap the JSON in a code fence.
+export const parseDeck = (text: string): Deck | null => {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  try {
+    return normalizeDeck(JSON.parse(json));
+  } catch {
+    return null;
+  }
+};
+
+/* =========================
+   EDITING
+========================= */
+// Puts `replacements` in place of slides start..end (inclusive). Slides that
+// keep their position keep their id, so they still line up with older versions.
+export const replaceSlides = (deck: Deck, start: number, end: number, replacements: Slide[]): Deck => {
+  const previous = deck.slides.slice(start, end + 1);
+  const slides = replacements.map((slide, i) => ({ ...slide, id: previous[i]?.id ?? slide.id }));
+  return { ...deck, slides: [...deck.slides.slice(0, start), ...slides, ...deck.slides.slice(end + 1)] };
+};
+
+// Gives `next` the ids of matching slides in `base`: same title first, then same
+// position, so a regenerated deck still lines up with the version it replaced.
+export const alignSlideIds = (base: Deck, next: Deck): Deck => {
+  const unused = new Map(base.slides.map(slide => [slide.id, slide]));
+  const byTitle = next.slides.map(slide => {
+    const match = base.slides.find(b => unused.has(b.id) && b.title && b.title === slide.title);
+    if (match) unused.delete(match.id);
+    return match?.id;
+  });
+  const slides = next.slides.map((slide, i) => {
+    const id = byTitle[i] ?? (unused.has(base.slides[i]?.id) ? base.slides[i].id : undefined);
+    if (id) unused.delete(id);
+    return { ...slide, id: id ?? slide.id };
+  });
+  return { ...next, slides };
+};
+
+/* =========================
+   VERSIONS
+   Every version of a deck shares `Deck.id`. The newest version of each
+   message is its `deck`; versions it replaced in place are in `deckHistory`,
+   and chat edits continue the same deck in a new message.
+========================= */
+let deckCounter = 0;
+export const createDeckId = () => `deck-${Date.now().toString(36)}-${(deckCounter++).toString(36)}`;
+
+// Decks from before versioning are identified by their message.
+export const getDeckId = (message: Message): string => message.deck?.id ?? message.id;
+
+export const getDeckVersion = (deck: Deck): number => deck.version ?? 1;
+
+// Every stored version of a deck across the session, oldest first.
+export const listDeckVersions = (messages: Message[], deckId: string): Deck[] => {
+  const versions = new Map<number, Deck>();
+  for (const message of messages) {
+    if (!message.deck || getDeckId(message) !== deckId) continue;
+    for (const deck of [...(message.deckHistory ?? []), message.deck]) {
+      versions.set(getDeckVersion(deck), deck);
+    }
+  }
+  return [...versions.entries()].sort(([a], [b]) => a - b).map(([, deck]) => deck);
+};
+
+export const nextDeckVersion = (messages: Message[], deckId: string): number =>
+  Math.max(0, ...listDeckVersions(messages, deckId).map(getDeckVersion)) + 1;
+
+export type SlideChange = "unchanged" | "changed" | "added" | "removed";
+
+export interface SlideComparison {
+  before?: Slide;
+  after?: Slide;
+  change: SlideChange;
+}
+
+const slideContent = (slide: Slide) => deckToPromptJson([slide]);
+
+// Pairs up the slides of two versions by id, in the order of `after`, with
+// removed slides kept near where they used to be.
+export const compareDecks = (before: Deck, after: Deck): SlideComparison[] => {
+  const afterIds = new Set(after.slides.map(s => s.id));
+  const beforeIndex = new Map(before.slides.map((s, i) => [s.id, i]));
+  const rows: SlideComparison[] = [];
+  let next = 0;
+
+  const flushRemoved = (until: number) => {
+    for (; next < until; next++) {
+      const slide = before.slides[next];
+      if (!afterIds.has(slide.id)) rows.push({ before: slide, change: "removed" });
+    }
+  };
+
+  for (const slide of after.slides) {
+    const index = beforeIndex.get(slide.id);
+    if (index === undefined) {
+      rows.push({ after: slide, change: "added" });
+      continue;
+    }
+    flushRemoved(index);
+    next = Math.max(next, index + 1);
+    const previous = before.slides[index];
+    rows.push({ before: previous, after: slide, change: slideContent(previous) === slideContent(slide) ? "unchanged" : "changed" });
+  }
+  flushRemoved(before.slides.length);
+  return rows;
+};
+
+/* =========================
+   TEXT FORMS
+========================= */
+// Markdown outline stored as the message content, so search, transcripts and
+// older history entries see the deck as readable text.
+export const deckToOutline = (deck: Deck): string => {
+  const lines = [`**${deck.title}**${deck.subtitle ? ` — ${deck.subtitle}` : ""}`, ""];
+  deck.slides.forEach((slide, i) => {
+    lines.push(`${i + 1}. ${slide.title || slide.quote || "Untitled slide"}`);
+    const points = [
+      ...(slide.bullets ?? []),
+      ...(slide.columns ?? []).flatMap(c => [...(c.heading ? [c.heading] : []), ...c.bullets]),
+      ...(slide.quote && slide.title ? [`“${slide.quote}”${slide.attribution ? ` — ${slide.attribution}` : ""}`] : []),
+    ];
+    points.forEach(point => lines.push(`   - ${point}`));
+  });
+  return lines.join("\n");
+};
+
+const APP_KEYS = new Set(["id", "version", "note", "createdAt", "theme"]);
+
+// Deck JSON for the model when it is asked to change the deck; ids, versions and the brand kit mean nothing to it.
+export const deckToPromptJson = (deck: Deck | Slide[]): string =>
+  JSON.stringify(deck, (key, value) => (APP_KEYS.has(key) ? undefined : value));
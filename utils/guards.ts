@@ -0,0 +1,3 @@
+// For normalizing stored and imported data: plain objects only, not arrays or null.
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
@@ -0,0 +1,32 @@
+import type { Message } from "../types";
+
+/* =========================
+   IMAGE EDIT CHAINS
+   In image mode each reply edits the image before it: `editOf` points at the
+   image message it started from, so following it back gives the versions.
+========================= */
+export const isImageReply = (message: Message): boolean =>
+  message.role === "assistant" && message.type === "image" && message.content.startsWith("data:image/");
+
+// The image a follow-up prompt edits by default: the latest one in `messages`.
+export const findLatestImage = (messages: Message[]): Message | undefined =>
+  [...messages].reverse().find(isImageReply);
+
+// Versions leading to `message`, oldest first and ending with it.
+export const getImageChain = (messages: Message[], message: Message): Message[] => {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const chain: Message[] = [];
+  let current: Message | undefined = message;
+  // Guards against cycles in imported data.
+  while (current && !chain.includes(current)) {
+    chain.unshift(current);
+    current = current.editOf ? byId.get(current.editOf) : undefined;
+  }
+  return chain;
+};
+
+// "data:image/png;base64,AAA" -> { mimeType: "image/png", data: "AAA" }
+export const dataUrlToInline = (url: string): { data: string; mimeType: string } | undefined => {
+  const match = url.match(/^data:([^;,]+);base64,(.*)$/);
+  return match ? { mimeType: match[1], data: match[2] } : undefined;
+};
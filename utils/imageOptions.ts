@@ -0,0 +1,55 @@
+import type { ImageAspectRatio, ImageParams, ImageStylePreset } from "../types";
+import { isObject } from "./guards";
+
+/* =========================
+   OPTIONS
+========================= */
+export const IMAGE_ASPECT_RATIOS: Record<ImageAspectRatio, string> = {
+  "1:1": "Square",
+  "4:3": "Landscape",
+  "16:9": "Widescreen",
+  "3:4": "Portrait",
+  "9:16": "Tall",
+};
+
+export const MAX_IMAGE_VARIATIONS = 4;
+
+export const DEFAULT_IMAGE_PARAMS: ImageParams = {
+  aspectRatio: "1:1",
+  count: 1,
+};
+
+// Seeded into settings on first run; users can edit or delete them like their own.
+export const DEFAULT_STYLE_PRESETS: ImageStylePreset[] = [
+  { id: "style-photo", name: "Photographic", prompt: "photorealistic, natural lighting, shallow depth of field, 35mm photo" },
+  { id: "style-illustration", name: "Flat illustration", prompt: "flat vector illustration, clean shapes, limited colour palette" },
+  { id: "style-watercolor", name: "Watercolor", prompt: "watercolor painting, soft edges, visible paper texture" },
+  { id: "style-3d", name: "3D render", prompt: "3D render, soft studio lighting, smooth materials" },
+];
+
+export const createStylePreset = (name: string, prompt: string): ImageStylePreset => ({
+  id: `style-${Date.now().toString(36)}`,
+  name,
+  prompt,
+});
+
+/* =========================
+   NORMALIZATION
+   Presets and params come back from storage and imported chats.
+========================= */
+export const normalizeStylePreset = (value: unknown): ImageStylePreset | null =>
+  isObject(value) && typeof value.id === "string" && typeof value.name === "string" && typeof value.prompt === "string"
+    ? { id: value.id, name: value.name, prompt: value.prompt }
+    : null;
+
+export const normalizeImageParams = (value: unknown): ImageParams | undefined => {
+  if (!isObject(value)) return undefined;
+  const aspectRatio = typeof value.aspectRatio === "string" && value.aspectRatio in IMAGE_ASPECT_RATIOS
+    ? value.aspectRatio as ImageAspectRatio
+    : DEFAULT_IMAGE_PARAMS.aspectRatio;
+  const count = typeof value.count === "number" && Number.isFinite(value.count)
+    ? Math.min(MAX_IMAGE_VARIATIONS, Math.max(1, Math.round(value.count)))
+    : DEFAULT_IMAGE_PARAMS.count;
+  const style = normalizeStylePreset(value.style);
+  return { aspectRatio, count, ...(style ? { style } : {}) };
+};
@@ -0,0 +1,111 @@
+import type { Attachment, ImageUploadSettings } from "../types";
+import { blobToBase64 } from "./binary";
+import { isObject } from "./guards";
+
+/* =========================
+   SETTINGS
+========================= */
+export const DEFAULT_IMAGE_UPLOAD: ImageUploadSettings = {
+  maxDimension: 2048,
+  format: "webp",
+  quality: 0.85,
+  keepOriginal: false,
+};
+
+export const IMAGE_MAX_DIMENSIONS = [1024, 1536, 2048, 3072, 4096];
+
+export const normalizeImageUploadSettings = (value: unknown): ImageUploadSettings => {
+  const v: Partial<Record<keyof ImageUploadSettings, unknown>> = isObject(value) ? value : {};
+  return {
+    maxDimension: typeof v.maxDimension === "number" && v.maxDimension >= 256 ? Math.round(v.maxDimension) : DEFAULT_IMAGE_UPLOAD.maxDimension,
+    format: v.format === "jpeg" || v.format === "webp" ? v.format : DEFAULT_IMAGE_UPLOAD.format,
+    quality: typeof v.quality === "number" && v.quality > 0 && v.quality <= 1 ? v.quality : DEFAULT_IMAGE_UPLOAD.quality,
+    keepOriginal: typeof v.keepOriginal === "boolean" ? v.keepOriginal : DEFAULT_IMAGE_UPLOAD.keepOriginal,
+  };
+};
+
+/* =========================
+   PREPROCESSING
+   Redrawing the image on a canvas drops its EXIF data, GPS position
+   included; the orientation is applied to the pixels first.
+========================= */
+// Animated GIFs would lose their animation and SVGs are not pixels, so both are sent as they are.
+export const canPreprocessImage = (mimeType: string): boolean =>
+  mimeType.startsWith("image/") && mimeType !== "image/gif" && mimeType !== "image/svg+xml";
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> =>
+  new Promise(resolve => canvas.toBlob(resolve, type, quality));
+
+const replaceExtension = (name: string, extension: string) =>
+  `${name.includes(".") ? name.slice(0, name.lastIndexOf(".")) : name}.${extension}`;
+
+// Screenshots and diagrams (few colours) and images with transparency are kept lossless;
+// a lossy format would blur their text and edges.
+const SAMPLE_SIZE = 256;
+const MAX_LOSSLESS_COLOURS = 256;
+
+const needsLossless = (bitmap: ImageBitmap): boolean => {
+  const scale = Math.min(1, SAMPLE_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return false;
+  // Nearest-neighbour sampling, so downscaling doesn't invent blended colours.
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const colours = new Set<number>();
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < 255) return true;
+    colours.add((data[i] << 16) | (data[i + 1] << 8) | data[i + 2]);
+    if (colours.size > MAX_LOSSLESS_COLOURS) return false;
+  }
+  return true;
+};
+
+const EXTENSIONS: Record<string, string> = { "image/png": "png", "image/webp": "webp", "image/jpeg": "jpg" };
+
+export const preprocessImage = async (file: File, settings: ImageUploadSettings): Promise<Attachment> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  const scale = Math.min(1, settings.maxDimension / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Images can't be processed in this browser.");
+  const lossless = needsLossless(bitmap);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  let blob: Blob | null;
+  if (lossless) {
+    blob = await canvasToBlob(canvas, "image/png", 1);
+  } else {
+    // Browsers without a WebP encoder return PNG instead; JPEG is the fallback then.
+    blob = settings.format === "webp" ? await canvasToBlob(canvas, "image/webp", settings.quality) : null;
+    if (!blob || blob.type !== "image/webp") {
+      // JPEG has no transparency; without a fill transparent areas turn black.
+      ctx.globalCompositeOperation = "destination-over";
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      blob = await canvasToBlob(canvas, "image/jpeg", settings.quality);
+    }
+  }
+  if (!blob) throw new Error(`${file.name} could not be converted.`);
+
+  // A PNG that already fits is sent as it is when redrawing would only make it bigger. PNGs
+  // rarely carry camera or location data; photo formats are always redrawn to remove it.
+  const name = file.name || "pasted";
+  if (scale === 1 && file.type === "image/png" && file.size <= blob.size) {
+    return { name, mimeType: file.type, data: await blobToBase64(file) };
+  }
+
+  return {
+    name: replaceExtension(name, EXTENSIONS[blob.type] ?? "img"),
+    mimeType: blob.type,
+    data: await blobToBase64(blob),
+    originalSize: file.size,
+    ...(settings.keepOriginal ? { original: { mimeType: file.type, data: await blobToBase64(file) } } : {}),
+  };
+};
@@ -0,0 +1,32 @@
+import type { Intent } from "../types";
+
+/* =========================
+   INTENTS
+   Messages sent in Chat mode are classified before they are dispatched, so
+   "make me a deck about X" gets slides while "explain this PowerPoint error"
+   stays a chat reply.
+========================= */
+export const INTENT_LABELS: Record<Intent, string> = {
+  text: "Chat",
+  image: "Image",
+  presentation: "Presentation",
+  "edit-presentation": "Presentation edit",
+};
+
+export const INTENT_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    intent: { type: "string", enum: Object.keys(INTENT_LABELS) },
+  },
+  required: ["intent"],
+};
+
+// Null for anything that isn't a known intent, including malformed JSON.
+export const parseIntent = (reply: string): Intent | null => {
+  try {
+    const intent = (JSON.parse(reply) as { intent?: unknown }).intent;
+    return typeof intent === "string" && Object.hasOwn(INTENT_LABELS, intent) ? intent as Intent : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,71 @@
+import type { MouseEvent } from "react";
+import { Marked, type Tokens } from "marked";
+import DOMPurify from "dompurify";
+import hljs from "highlight.js/lib/common";
+import "highlight.js/styles/atom-one-dark.css";
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const highlight = (code: string, lang?: string): string => {
+  const language = lang && hljs.getLanguage(lang) ? lang : undefined;
+  try {
+    return language
+      ? hljs.highlight(code, { language, ignoreIllegals: true }).value
+      : hljs.highlightAuto(code).value;
+  } catch {
+    return escapeHtml(code);
+  }
+};
+
+const marked = new Marked({
+  gfm: true,
+  breaks: true,
+  renderer: {
+    // Fenced code gets a header with the language and a copy button; see `handleCodeCopyClick`.
+    code({ text, lang }: Tokens.Code) {
+      const language = (lang || "").trim().split(/\s+/)[0];
+      return `<div class="code-block">`
+        + `<div class="code-block-header"><span>${escapeHtml(language || "code")}</span>`
+        + `<button type="button" data-copy-code>Copy</button></div>`
+        + `<pre><code class="hljs${language ? ` language-${escapeHtml(language)}` : ""}">${highlight(text, language)}</code></pre>`
+        + `</div>`;
+    },
+  },
+});
+
+// Links from model output always open in a new tab and never get access to the opener.
+DOMPurify.addHook("afterSanitizeAttributes", (node) => {
+  if (node.tagName === "A" && node.getAttribute("href")) {
+    node.setAttribute("target", "_blank");
+    node.setAttribute("rel", "noopener noreferrer");
+  }
+});
+
+// Converts Markdown to sanitized HTML that is safe for `dangerouslySetInnerHTML`.
+export const renderMarkdown = (markdown: string): string => {
+  if (!markdown) return "";
+  const html = marked.parse(markdown, { async: false });
+  return DOMPurify.sanitize(html, {
+    USE_PROFILES: { html: true },
+    ADD_ATTR: ["target"],
+    FORBID_TAGS: ["style", "form", "input", "textarea", "select"],
+  });
+};
+
+// Delegated click handler for the copy buttons `renderMarkdown` emits.
+export const handleCodeCopyClick = (event: MouseEvent<HTMLElement>) => {
+  const button = (event.target as HTMLElement).closest<HTMLButtonElement>("[data-copy-code]");
+  if (!button) return;
+  const code = button.closest(".code-block")?.querySelector("code")?.textContent ?? "";
+  navigator.clipboard.writeText(code).then(() => {
+    button.textContent = "Copied!";
+    setTimeout(() => { button.textContent = "Copy"; }, 1500);
+  }).catch(() => {
+    button.textContent = "Copy failed";
+  });
+};
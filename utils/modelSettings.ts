@@ -0,0 +1,74 @@
+import type { GeneratedWith, GenerationConfig, ModelSettings } from "../types";
+import { isObject } from "./guards";
+
+/* =========================
+   GENERATION CONFIG
+========================= */
+export const TEMPERATURE_RANGE = { min: 0, max: 2, step: 0.05 };
+export const TOP_P_RANGE = { min: 0, max: 1, step: 0.05 };
+export const MAX_OUTPUT_TOKENS_LIMIT = 65_536;
+// 24,576 is the largest budget Gemini 2.5 Flash accepts.
+export const THINKING_BUDGETS: { value: number; label: string }[] = [
+  { value: 0, label: "Off" },
+  { value: -1, label: "Dynamic" },
+  { value: 1024, label: "1K tokens" },
+  { value: 4096, label: "4K tokens" },
+  { value: 8192, label: "8K tokens" },
+  { value: 24_576, label: "24K tokens" },
+];
+
+// The sampling parameters of a chat's settings, without its model choice.
+export const getGenerationConfig = (settings: ModelSettings = {}): GenerationConfig => {
+  const { temperature, topP, maxOutputTokens, thinkingBudget } = settings;
+  return {
+    ...(temperature !== undefined ? { temperature } : {}),
+    ...(topP !== undefined ? { topP } : {}),
+    ...(maxOutputTokens !== undefined ? { maxOutputTokens } : {}),
+    ...(thinkingBudget !== undefined ? { thinkingBudget } : {}),
+  };
+};
+
+// For replies parsed as JSON (decks, slide edits): an output limit would cut them off mid-object.
+export const getStructuredGenerationConfig = (settings: ModelSettings = {}): GenerationConfig =>
+  getGenerationConfig({ ...settings, maxOutputTokens: undefined });
+
+// e.g. "temperature 0.7 · top-p 0.9"; empty when everything is at the model's defaults.
+export const describeGenerationConfig = (config: GenerationConfig): string => [
+  config.temperature !== undefined && `temperature ${config.temperature}`,
+  config.topP !== undefined && `top-p ${config.topP}`,
+  config.maxOutputTokens !== undefined && `max ${config.maxOutputTokens} tokens`,
+  config.thinkingBudget !== undefined && `thinking ${THINKING_BUDGETS.find(b => b.value === config.thinkingBudget)?.label.toLowerCase() ?? config.thinkingBudget}`,
+].filter(Boolean).join(" · ");
+
+/* =========================
+   NORMALIZATION
+   Settings come back from imported chats; out-of-range values are dropped.
+========================= */
+const numberIn = (value: unknown, min: number, max: number): number | undefined =>
+  typeof value === "number" && Number.isFinite(value) && value >= min && value <= max ? value : undefined;
+
+export const normalizeGenerationConfig = (value: unknown): GenerationConfig => {
+  const v = isObject(value) ? value : {};
+  const maxOutputTokens = numberIn(v.maxOutputTokens, 1, MAX_OUTPUT_TOKENS_LIMIT);
+  const thinkingBudget = numberIn(v.thinkingBudget, -1, Number.MAX_SAFE_INTEGER);
+  return getGenerationConfig({
+    temperature: numberIn(v.temperature, TEMPERATURE_RANGE.min, TEMPERATURE_RANGE.max),
+    topP: numberIn(v.topP, TOP_P_RANGE.min, TOP_P_RANGE.max),
+    maxOutputTokens: maxOutputTokens !== undefined ? Math.round(maxOutputTokens) : undefined,
+    thinkingBudget: thinkingBudget !== undefined ? Math.round(thinkingBudget) : undefined,
+  });
+};
+
+export const normalizeModelSettings = (value: unknown): ModelSettings => {
+  const v = isObject(value) ? value : {};
+  return {
+    ...(typeof v.textModel === "string" && v.textModel ? { textModel: v.textModel } : {}),
+    ...(typeof v.imageModel === "string" && v.imageModel ? { imageModel: v.imageModel } : {}),
+    ...normalizeGenerationConfig(v),
+  };
+};
+
+export const normalizeGeneratedWith = (value: unknown): GeneratedWith | null => {
+  if (!isObject(value) || typeof value.providerId !== "string" || typeof value.model !== "string") return null;
+  return { providerId: value.providerId as GeneratedWith["providerId"], model: value.model, config: normalizeGenerationConfig(value.config) };
+};
@@ -0,0 +1,35 @@
+import type { Persona, ProviderId } from "../types";
+import { isObject } from "./guards";
+
+export const PERSONA_MODES: Record<Persona["defaultMode"], string> = {
+  text: "Chat",
+  image: "Image",
+  presentation: "Presentation",
+};
+
+export const createPersona = (name: string): Persona => ({
+  id: `persona-${Date.now().toString(36)}`,
+  name,
+  icon: "🤖",
+  instructions: "",
+  defaultMode: "text",
+  useSearch: true,
+});
+
+/* =========================
+   NORMALIZATION
+   Personas come back from storage and imported chats.
+========================= */
+export const normalizePersona = (value: unknown): Persona | null => {
+  if (!isObject(value) || typeof value.id !== "string" || typeof value.name !== "string") return null;
+  return {
+    id: value.id,
+    name: value.name.trim() || "Persona",
+    icon: typeof value.icon === "string" && value.icon.trim() ? value.icon.trim() : "🤖",
+    instructions: typeof value.instructions === "string" ? value.instructions : "",
+    defaultMode: typeof value.defaultMode === "string" && Object.hasOwn(PERSONA_MODES, value.defaultMode) ? value.defaultMode as Persona["defaultMode"] : "text",
+    // Unknown providers fall back to the default one when the chat is created.
+    ...(typeof value.providerId === "string" ? { providerId: value.providerId as ProviderId } : {}),
+    useSearch: typeof value.useSearch === "boolean" ? value.useSearch : true,
+  };
+};
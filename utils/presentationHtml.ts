@@ -0,0 +1,147 @@
+import type { Deck, Slide } from "../types";
+import { createSlideId, normalizeDeck } from "./deck";
+
+// Robust HTML extractor: Finds HTML document even if surrounded by text or markdown
+export const cleanHtmlContent = (content: string): string => {
+  if (!content) return "";
+  
+  // Find start: <!doctype html> or <html, case insensitive
+  // We look for the tag start.
+  const startMatch = content.match(/<!doctype\s+html>|<html/i);
+  if (!startMatch || startMatch.index === undefined) return "";
+  
+  // Start substring from the tag
+  let html = content.substring(startMatch.index);
+  
+  // Find end: </html>
+  const endMatch = html.match(/<\/html>/i);
+  if (endMatch && endMatch.index !== undefined) {
+      // Cut off everything after </html>
+      html = html.substring(0, endMatch.index + 7);
+  } else {
+      // If incomplete (streaming), just strip trailing markdown ticks or text
+      html = html.replace(/```(html)?\s*$/i, '');
+  }
+  
+  return html.trim();
+};
+
+/* =========================
+   SANDBOXING
+   Older decks are model-authored HTML. They run in an iframe with only
+   `allow-scripts`, so they get an opaque origin and cannot reach the app,
+   its storage or popups; on top of that they are sanitized, locked down by a
+   CSP and driven by the parent through a small postMessage protocol.
+========================= */
+// Nothing is fetched from the network, images included (an image URL can carry data out);
+// inline scripts and styles keep the deck working.
+export const PRESENTATION_CSP = [
+  "default-src 'none'",
+  "script-src 'unsafe-inline'",
+  "style-src 'unsafe-inline'",
+  "img-src data: blob:",
+  "font-src data:",
+  "media-src data:",
+  "connect-src 'none'",
+  "form-action 'none'",
+  "frame-src 'none'",
+  "base-uri 'none'",
+].join("; ");
+
+const BLOCKED_ELEMENTS = "script[src], iframe, frame, frameset, object, embed, applet, portal, base, link, meta[http-equiv]";
+const URL_ATTRIBUTES = ["href", "src", "xlink:href", "poster", "background"];
+
+// Browsers ignore whitespace and control characters inside the scheme; inline images are fine.
+const isScriptUrl = (value: string) =>
+  /^(javascript|vbscript|data):/i.test(value.replace(/[\s\u0000-\u001f]/g, "")) && !/^\s*data:image\//i.test(value);
+
+// Strips what a deck could use to load code or send data elsewhere: remote scripts,
+// embedded frames, external stylesheets, forms and script URLs. Inline scripts stay.
+export const sanitizePresentationHtml = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  doc.querySelectorAll(BLOCKED_ELEMENTS).forEach(el => el.remove());
+  // Forms are unwrapped so their content still shows but can never submit.
+  doc.querySelectorAll("form").forEach(form => form.replaceWith(...Array.from(form.childNodes)));
+
+  doc.querySelectorAll("*").forEach(el => {
+    for (const attr of Array.from(el.attributes)) {
+      const name = attr.name.toLowerCase();
+      if ((URL_ATTRIBUTES.includes(name) && isScriptUrl(attr.value)) || name === "ping" || name === "formaction" || name === "target") el.removeAttribute(attr.name);
+    }
+    // Links may only jump within the deck; anything else would navigate the frame away.
+    if (el.tagName === "A" && !el.getAttribute("href")?.startsWith("#")) el.removeAttribute("href");
+  });
+  return `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+};
+
+export const PRESENTATION_MESSAGE_SOURCE = "pkp-presentation";
+
+export type PresentationCommand = "next" | "previous" | "first" | "last";
+
+// Parent -> frame: `{ source, type: "navigate", command }`.
+// Frame -> parent: `{ source, type: "key", key: "Escape" }` so the deck can be closed while the frame has focus.
+const BRIDGE_SCRIPT = `(() => {
+  const SOURCE = ${JSON.stringify(PRESENTATION_MESSAGE_SOURCE)};
+  const KEYS = { next: "ArrowRight", previous: "ArrowLeft", first: "Home", last: "End" };
+  window.addEventListener("message", (event) => {
+    if (event.source !== window.parent) return;
+    const data = event.data;
+    if (!data || data.source !== SOURCE || data.type !== "navigate" || !KEYS[data.command]) return;
+    const key = KEYS[data.command];
+    (document.body || document.documentElement).dispatchEvent(new KeyboardEvent("keydown", { key, code: key, bubbles: true }));
+  });
+  window.addEventListener("keydown", (event) => {
+    if (event.key === "Escape") window.parent.postMessage({ source: SOURCE, type: "key", key: "Escape" }, "*");
+  });
+})();`;
+
+// The sanitized deck with its CSP and navigation bridge, ready for a `sandbox="allow-scripts"` srcdoc.
+export const toSandboxedPresentation = (html: string): string => {
+  const doc = new DOMParser().parseFromString(sanitizePresentationHtml(html), "text/html");
+  const csp = doc.createElement("meta");
+  csp.setAttribute("http-equiv", "Content-Security-Policy");
+  csp.setAttribute("content", PRESENTATION_CSP);
+  // The policy must come before anything it governs.
+  doc.head.prepend(csp);
+  const bridge = doc.createElement("script");
+  bridge.textContent = BRIDGE_SCRIPT;
+  doc.head.append(bridge);
+  return `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+};
+
+const textOf = (el: Element | null | undefined) => el?.textContent?.replace(/\s+/g, " ").trim() ?? "";
+
+// Best-effort structured copy of a model-authored HTML deck, one slide per <section>,
+// so older presentations can use the exporters built for structured decks.
+export const htmlToDeck = (html: string): Deck | null => {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  const sections = Array.from(doc.querySelectorAll("section"))
+    // Nested sections belong to the slide that contains them.
+    .filter(section => !section.parentElement?.closest("section"));
+
+  const slides = sections.map((section, i): Slide => {
+    const notesEl = section.querySelector("aside.notes, .notes, [data-notes]");
+    const notes = notesEl?.getAttribute("data-notes") || textOf(notesEl);
+    notesEl?.remove();
+
+    const heading = section.querySelector("h1, h2, h3");
+    const bullets = Array.from(section.querySelectorAll("li")).map(textOf).filter(Boolean);
+    const paragraphs = Array.from(section.querySelectorAll("p")).map(textOf).filter(Boolean);
+    const img = section.querySelector("img");
+    const src = img?.getAttribute("src") ?? "";
+
+    const slide: Slide = {
+      id: createSlideId(),
+      layout: img ? "image" : i === 0 && !bullets.length ? "title" : "bullets",
+      title: textOf(heading),
+    };
+    if (bullets.length) slide.bullets = bullets;
+    else if (paragraphs.length > 1 || (paragraphs.length && img)) slide.bullets = paragraphs;
+    else if (paragraphs.length) slide.subtitle = paragraphs[0];
+    if (img) slide.image = { ...(src ? { url: src } : {}), alt: img.getAttribute("alt") || "Image" };
+    if (notes) slide.notes = notes;
+    return slide;
+  });
+
+  return normalizeDeck({ title: textOf(doc.querySelector("title")) || slides[0]?.title, slides });
+};